@@ -18,10 +18,13 @@ import {
   Thermometer
 } from "lucide-react";
 import type { RocketComponent } from "./RocketDesigner";
+import { PhysicsEngine, type LaunchConditions } from "./PhysicsEngine";
+import { DEFAULT_OPTIMIZER_REQUIREMENTS, optimizeDesign, type OptimizedDesign } from "./DesignOptimizer";
 
 interface AIAssistantProps {
   components: RocketComponent[];
   selectedMotor?: any;
+  launchConditions: LaunchConditions;
   onGenerateDesign?: (design: RocketComponent[]) => void;
 }
 
@@ -59,111 +62,41 @@ const getWeatherConditions = (location?: string) => ({
   visibility: 5 + Math.random() * 15 // 5-20 km
 });
 
-// Design generation based on requirements
-const generateDesignForRequirements = (requirements: {
-  targetAltitude?: number;
-  targetVelocity?: number;
-  payload?: number;
-  weather?: boolean;
-  stability?: 'high' | 'medium' | 'low';
-}): RocketComponent[] => {
-  const { targetAltitude = 300, targetVelocity = 100, payload = 0, stability = 'medium' } = requirements;
-  
-  // Calculate required motor impulse using rocket equation
-  const estimatedMass = 0.3 + payload; // Base rocket mass + payload
-  const requiredImpulse = Math.sqrt(targetAltitude * estimatedMass * 0.8); // Simplified calculation
-  
-  // Select appropriate motor
-  let selectedMotor = 'C6-5';
-  if (requiredImpulse > 35) selectedMotor = 'F15-4';
-  else if (requiredImpulse > 25) selectedMotor = 'E9-6';
-  else if (requiredImpulse > 15) selectedMotor = 'D12-5';
-  else if (requiredImpulse > 8) selectedMotor = 'C6-5';
-  else if (requiredImpulse > 4) selectedMotor = 'B6-4';
-  else selectedMotor = 'A8-3';
-  
-  // Calculate optimal rocket dimensions
-  const motorData = MOTOR_DATABASE[selectedMotor as keyof typeof MOTOR_DATABASE];
-  const optimalLength = Math.sqrt(targetAltitude / 10); // Length-to-altitude ratio
-  const bodyDiameter = Math.max(29, Math.min(54, motorData.thrust * 2)); // Scale with thrust
-  
-  // Stability-based fin design
-  const finCount = stability === 'high' ? 4 : stability === 'medium' ? 3 : 3;
-  const finSize = stability === 'high' ? 1.2 : stability === 'medium' ? 1.0 : 0.8;
-  
-  return [
-    {
-      id: 'nose-1',
-      type: 'nosecone',
-      name: 'Optimized Nose Cone',
-      x: 50,
-      y: 50,
-      width: bodyDiameter,
-      height: bodyDiameter * 1.5,
-      mass: 0.025,
-      dragCoefficient: 0.15,
-      color: 'bg-gradient-to-b from-blue-500 to-blue-600',
-      material: 'balsa',
-      thickness: 3
-    },
-    {
-      id: 'body-1',
-      type: 'bodytube',
-      name: 'Main Body Tube',
-      x: 50,
-      y: 50 + bodyDiameter * 1.5,
-      width: bodyDiameter,
-      height: optimalLength * 30,
-      mass: 0.12,
-      dragCoefficient: 0.45,
-      color: 'bg-gradient-to-b from-red-500 to-red-600',
-      material: 'cardboard',
-      thickness: 2
-    },
-    {
-      id: 'fins-1',
-      type: 'fins',
-      name: `${finCount}-Fin Set`,
-      x: 50,
-      y: 50 + bodyDiameter * 1.5 + optimalLength * 25,
-      width: bodyDiameter + 40 * finSize,
-      height: 60 * finSize,
-      mass: 0.015 * finCount,
-      dragCoefficient: 0.02 * finCount,
-      color: 'bg-gradient-to-r from-green-500 to-green-600',
-      finCount,
-      material: 'balsa'
-    },
-    {
-      id: 'engine-1',
-      type: 'engine',
-      name: `${selectedMotor} Engine Mount`,
-      x: 50,
-      y: 50 + bodyDiameter * 1.5 + optimalLength * 30 - 40,
-      width: bodyDiameter,
-      height: 40,
-      mass: motorData.mass,
-      dragCoefficient: 0.1,
-      color: 'bg-gradient-to-b from-yellow-500 to-orange-500',
-      motorType: selectedMotor
-    },
-    {
-      id: 'recovery-1',
-      type: 'parachute',
-      name: 'Recovery System',
-      x: 50,
-      y: 70,
-      width: bodyDiameter * 0.8,
-      height: 30,
-      mass: 0.02,
-      dragCoefficient: 1.3,
-      color: 'bg-gradient-to-r from-purple-400 to-pink-400',
-      deploymentAltitude: targetAltitude * 0.7
-    }
-  ];
+// Target apogee from requests like "design a rocket for 300m altitude"
+const parseDesignRequest = (userMessage: string): number | null => {
+  const message = userMessage.toLowerCase();
+  if (!message.includes('design') || !['altitude', 'apogee', 'velocity'].some(word => message.includes(word))) return null;
+  const altitudeMatch = message.match(/(\d+)\s*(feet|ft|meters?|metres?|m)\b/);
+  if (!altitudeMatch) return DEFAULT_OPTIMIZER_REQUIREMENTS.targetApogee;
+  const value = parseInt(altitudeMatch[1]);
+  return altitudeMatch[2] === 'feet' || altitudeMatch[2] === 'ft' ? value * 0.3048 : value;
+};
+
+const describeOptimizedDesign = (design: OptimizedDesign | null, targetApogee: number, weatherInfo: string): string => {
+  if (!design) {
+    return "⚠️ I couldn't find a motor to build around. Check the motor catalog and try again.";
+  }
+  const verdict = design.withinTolerance && design.meetsConstraints
+    ? `✅ Verified by simulation: it reaches ${design.outputs.apogee.toFixed(0)}m against your ${targetApogee.toFixed(0)}m target.`
+    : `⚠️ The closest design I found reaches ${design.outputs.apogee.toFixed(0)}m against your ${targetApogee.toFixed(0)}m target. Try the Design Optimizer panel to relax the constraints.`;
+
+  return `🚀 I've optimized a rocket design for ${targetApogee.toFixed(0)}m altitude!
+
+${verdict}
+
+Key specifications:
+- Motor: ${design.motor.designation}
+- Predicted apogee: ${design.outputs.apogee.toFixed(1)}m
+- Max velocity: ${design.outputs.maxVelocity.toFixed(1)} m/s
+- Descent rate: ${design.descentRate === null ? 'not checked' : `${design.descentRate.toFixed(1)} m/s`}
+- Static margin: ${design.outputs.staticMargin.toFixed(2)} calibers
+- Length: ${design.length.toFixed(0)}mm
+- Ballast: ${(design.ballast * 1000).toFixed(0)}g
+- Simulations run: ${design.evaluations}${weatherInfo}
+
+The design has been added to your workspace. You can modify any component as needed!`;
 };
 
-// Complex physics calculations
 const calculateAdvancedMetrics = (components: RocketComponent[], selectedMotor: any) => {
   const totalMass = components.reduce((sum, comp) => sum + comp.mass, 0);
   const rocketLength = Math.max(...components.map(c => c.y + c.height)) - Math.min(...components.map(c => c.y));
@@ -176,23 +109,12 @@ const calculateAdvancedMetrics = (components: RocketComponent[], selectedMotor:
   });
   const centerOfGravity = totalMoment / totalMass;
   
-  // Center of pressure (simplified Barrowman equations)
-  const noseCone = components.find(c => c.type === 'nosecone');
-  const bodyTube = components.find(c => c.type === 'bodytube');
-  const fins = components.find(c => c.type === 'fins');
-  
-  let centerOfPressure = rocketLength * 0.5; // Default middle
-  if (noseCone && bodyTube && fins) {
-    const noseCP = noseCone.height * 0.466;
-    const finCP = fins.y + fins.height * 0.25;
-    const finArea = fins.width * fins.height * (fins.finCount || 3);
-    const bodyArea = bodyTube.width * bodyTube.height;
-    
-    centerOfPressure = (noseCP * bodyArea + finCP * finArea) / (bodyArea + finArea);
-  }
+  // Center of pressure (Barrowman equations)
+  const physicsEngine = new PhysicsEngine();
+  const centerOfPressure = physicsEngine.calculateCenterOfPressure(components);
   
   // Stability margin (calibers)
-  const stabilityMargin = (centerOfPressure - centerOfGravity) / (bodyTube?.width || 50);
+  const stabilityMargin = (centerOfPressure - centerOfGravity) / (physicsEngine.calculateReferenceDiameter(components) * 1000 || 50);
   
   // Performance calculations
   const motorData = selectedMotor ? MOTOR_DATABASE[selectedMotor.designation as keyof typeof MOTOR_DATABASE] : null;
@@ -385,8 +307,7 @@ Lower Cd = Higher altitude and velocity. Critical for high-performance rockets.`
 const generateAIResponse = (
   components: RocketComponent[], 
   selectedMotor: any, 
-  userMessage: string,
-  onGenerateDesign?: (design: RocketComponent[]) => void
+  userMessage: string
 ): string => {
   const message = userMessage.toLowerCase();
   
@@ -407,44 +328,6 @@ Try: "define barrowman stability" or "define center of pressure"`;
     }
   }
   
-  // Design generation requests
-  if (message.includes('design') && (message.includes('altitude') || message.includes('velocity'))) {
-    const altitudeMatch = message.match(/(\d+)\s*(?:m|meter|metre|feet|ft)/);
-    const velocityMatch = message.match(/(\d+)\s*(?:m\/s|mph|kmh|km\/h)/);
-    const weatherMatch = message.includes('weather');
-    
-    const targetAltitude = altitudeMatch ? parseInt(altitudeMatch[1]) : 300;
-    const targetVelocity = velocityMatch ? parseInt(velocityMatch[1]) : 100;
-    
-    if (onGenerateDesign) {
-      const design = generateDesignForRequirements({
-        targetAltitude,
-        targetVelocity,
-        weather: weatherMatch,
-        stability: 'medium'
-      });
-      onGenerateDesign(design);
-    }
-    
-    const weather = weatherMatch ? getWeatherConditions() : null;
-    const weatherInfo = weather ? 
-      `\n\n🌤️ Current weather conditions:\n- Temperature: ${weather.temperature.toFixed(1)}°C\n- Wind: ${weather.windSpeed.toFixed(1)} m/s\n- Pressure: ${weather.pressure.toFixed(0)} hPa` : '';
-    
-    return `🚀 I've generated an optimized rocket design for ${targetAltitude}m altitude! The design includes:
-
-✅ Optimized nose cone for minimal drag
-✅ Properly sized body tube and fins
-✅ Appropriate motor selection
-✅ Recovery system
-
-Key specifications:
-- Target altitude: ${targetAltitude}m
-- Estimated performance: ${(targetAltitude * 0.9).toFixed(0)}m
-- Stability margin: Optimized for flight conditions${weatherInfo}
-
-The design has been added to your workspace. You can modify any component as needed!`;
-  }
-  
   // Complex calculations
   if (message.includes('calculate') || message.includes('physics') || message.includes('equation')) {
     const analysis = analyzeDesignProblems(components, selectedMotor);
@@ -538,7 +421,7 @@ Want to optimize for higher altitude? Try reducing mass or increasing motor powe
   return advancedResponses[Math.floor(Math.random() * advancedResponses.length)];
 };
 
-export const AIAssistant = ({ components, selectedMotor, onGenerateDesign }: AIAssistantProps) => {
+export const AIAssistant = ({ components, selectedMotor, launchConditions, onGenerateDesign }: AIAssistantProps) => {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: "welcome",
@@ -564,17 +447,38 @@ export const AIAssistant = ({ components, selectedMotor, onGenerateDesign }: AIA
     setInputValue("");
     setIsTyping(true);
 
+    const addResponse = (content: string) => {
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        type: "assistant",
+        content,
+        timestamp: new Date()
+      }]);
+      setIsTyping(false);
+    };
+
+    // Design requests run the optimizer and answer with the simulated result
+    const targetApogee = parseDesignRequest(inputValue);
+    if (targetApogee !== null && onGenerateDesign) {
+      const weather = inputValue.toLowerCase().includes('weather') ? getWeatherConditions() : null;
+      const weatherInfo = weather ?
+        `\n\n🌤️ Current weather conditions:\n- Temperature: ${weather.temperature.toFixed(1)}°C\n- Wind: ${weather.windSpeed.toFixed(1)} m/s\n- Pressure: ${weather.pressure.toFixed(0)} hPa` : '';
+      optimizeDesign(
+        new PhysicsEngine(),
+        { ...DEFAULT_OPTIMIZER_REQUIREMENTS, targetApogee, apogeeTolerance: Math.max(5, targetApogee * 0.05) },
+        launchConditions
+      ).then(design => {
+        if (design) onGenerateDesign(design.components);
+        addResponse(describeOptimizedDesign(design, targetApogee, weatherInfo));
+      }).catch(error => {
+        addResponse(`⚠️ The optimizer failed: ${error instanceof Error ? error.message : String(error)}. Try the Design Optimizer panel instead.`);
+      });
+      return;
+    }
+
     // Simulate AI thinking time
       setTimeout(() => {
-        const aiResponse: Message = {
-          id: (Date.now() + 1).toString(),
-          type: "assistant",
-          content: generateAIResponse(components, selectedMotor, inputValue, onGenerateDesign),
-          timestamp: new Date()
-        };
-        
-        setMessages(prev => [...prev, aiResponse]);
-        setIsTyping(false);
+        addResponse(generateAIResponse(components, selectedMotor, inputValue));
       }, 1000 + Math.random() * 1000);
   };
 
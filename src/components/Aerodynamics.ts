@@ -0,0 +1,200 @@
+// Nose profiles, fin-count corrections, body lift and the compressibility corrections
+// for the normal-force slope and center of pressure. Bodies follow slender-body theory
+// and keep their subsonic values; fins move from Barrowman's subsonic result through
+// the transonic region to Ackeret's supersonic theory.
+
+import type { AerodynamicSurface } from "./PhysicsEngine";
+import type { FinSetGeometry } from "./DragModel";
+
+export type NoseShape = "conical" | "ogive" | "parabolic" | "ellipsoid" | "haack";
+
+export const DEFAULT_NOSE_SHAPE: NoseShape = "conical";
+
+export interface NormalForceEvaluation {
+  normalForceSlope: number; // CNα per radian, referenced to the rocket's reference area
+  centerOfPressure: number; // m aft of the nose tip
+  surfaces: AerodynamicSurface[]; // each surface evaluated at the Mach number
+}
+
+// Transonic blending window for the fin normal-force slope
+const SUBSONIC_LIMIT = 0.8;
+const SUPERSONIC_LIMIT = 1.2;
+
+// Fin CP moves from its subsonic position to the supersonic one across this range
+const CP_SHIFT_START = 0.5;
+const CP_SHIFT_END = 2;
+
+// Galejs' cross-flow coefficient for body lift at angle of attack
+const BODY_LIFT_COEFFICIENT = 1.1;
+
+// Barrowman's formula holds for three and four fins; larger sets interfere with each other
+const FIN_COUNT_FACTORS: Record<number, number> = { 5: 0.948, 6: 0.913, 7: 0.854, 8: 0.81 };
+
+export function finCountFactor(count: number): number {
+  if (count <= 4) return 1;
+  return FIN_COUNT_FACTORS[Math.min(8, Math.round(count))] ?? 0.75;
+}
+
+// Radius of a nose of the given shape at distance x behind its tip
+export function noseRadius(shape: NoseShape, x: number, length: number, radius: number): number {
+  if (length <= 0) return radius;
+  const t = Math.min(1, Math.max(0, x / length));
+  switch (shape) {
+    case "ogive": {
+      // Tangent ogive
+      const rho = (radius * radius + length * length) / (2 * radius);
+      return Math.sqrt(Math.max(0, rho * rho - Math.pow(length - x, 2))) + radius - rho;
+    }
+    case "parabolic":
+      return radius * Math.sqrt(t);
+    case "ellipsoid":
+      return radius * Math.sqrt(Math.max(0, 1 - (1 - t) * (1 - t)));
+    case "haack": {
+      // Von Kármán (LD-Haack with C = 0)
+      const theta = Math.acos(1 - 2 * t);
+      return radius / Math.sqrt(Math.PI) * Math.sqrt(theta - Math.sin(2 * theta) / 2);
+    }
+    default:
+      return radius * t;
+  }
+}
+
+interface FinPlanform {
+  area: number; // m², one fin
+  aspectRatio: number; // of a fin pair
+  chordRatio: number; // midchord length over mean chord, Barrowman's 2·l/(cr+ct)
+  meanAerodynamicChord: number; // m
+  macLeadingEdge: number; // m aft of the root leading edge
+}
+
+function finPlanform(fin: FinSetGeometry): FinPlanform {
+  const { rootChord, tipChord, span } = fin;
+  const chordSum = Math.max(rootChord + tipChord, 1e-9);
+  const sweepLength = span * Math.tan(fin.sweepAngle);
+  const midChordLength = Math.sqrt(span * span + Math.pow(sweepLength + (tipChord - rootChord) / 2, 2));
+  const area = chordSum / 2 * span;
+  const macSpan = span / 3 * (rootChord + 2 * tipChord) / chordSum;
+
+  return {
+    area,
+    aspectRatio: area > 0 ? 2 * span * span / area : 0,
+    chordRatio: 2 * midChordLength / chordSum,
+    meanAerodynamicChord: (2 / 3) * (rootChord + tipChord - rootChord * tipChord / chordSum),
+    macLeadingEdge: span > 0 ? sweepLength * macSpan / span : 0
+  };
+}
+
+function supersonicFinSlope(fin: FinSetGeometry, planform: FinPlanform, mach: number, referenceArea: number): number {
+  // Ackeret thin-wing theory with a finite-span tip loss; half the fins carry the load
+  const beta = Math.sqrt(mach * mach - 1);
+  const tipLoss = Math.max(0.5, 1 - 1 / (2 * planform.aspectRatio * beta));
+  const interference = 1 + fin.bodyRadius / (fin.span + fin.bodyRadius);
+  return fin.count / 2 * finCountFactor(fin.count) * (4 / beta) * tipLoss * planform.area / referenceArea * interference;
+}
+
+function finSlopeAtMach(surface: AerodynamicSurface, fin: FinSetGeometry, mach: number, referenceArea: number): number {
+  const planform = finPlanform(fin);
+  // Prandtl–Glauert applied to the aspect-ratio term of Barrowman's formula
+  const subsonic = (m: number) => {
+    const beta = Math.sqrt(1 - m * m);
+    return surface.normalForceSlope * (1 + Math.sqrt(1 + planform.chordRatio * planform.chordRatio)) /
+      (1 + Math.sqrt(1 + Math.pow(beta * planform.chordRatio, 2)));
+  };
+
+  if (mach <= SUBSONIC_LIMIT) return subsonic(mach);
+  if (mach >= SUPERSONIC_LIMIT) return supersonicFinSlope(fin, planform, mach, referenceArea);
+
+  const fraction = (mach - SUBSONIC_LIMIT) / (SUPERSONIC_LIMIT - SUBSONIC_LIMIT);
+  const low = subsonic(SUBSONIC_LIMIT);
+  const high = supersonicFinSlope(fin, planform, SUPERSONIC_LIMIT, referenceArea);
+  return low + (high - low) * fraction;
+}
+
+function finPositionAtMach(surface: AerodynamicSurface, fin: FinSetGeometry, mach: number): number {
+  if (mach <= CP_SHIFT_START || surface.leadingEdge === undefined) return surface.position;
+
+  // Supersonic fins load up towards mid-chord of the mean aerodynamic chord
+  const planform = finPlanform(fin);
+  const beta = Math.sqrt(Math.pow(Math.max(mach, CP_SHIFT_END), 2) - 1);
+  const ab = planform.aspectRatio * beta;
+  const chordFraction = Math.min(0.5, Math.max(0.25, (ab - 0.67) / (2 * ab - 1)));
+  const supersonic = surface.leadingEdge + planform.macLeadingEdge + chordFraction * planform.meanAerodynamicChord;
+
+  const fraction = Math.min(1, (mach - CP_SHIFT_START) / (CP_SHIFT_END - CP_SHIFT_START));
+  return surface.position + (supersonic - surface.position) * fraction;
+}
+
+export function surfaceAtMach(
+  surface: AerodynamicSurface,
+  mach: number,
+  referenceArea: number,
+  angleOfAttack: number = 0
+): AerodynamicSurface {
+  if (referenceArea <= 0) return surface;
+  if (surface.planformArea !== undefined) {
+    // Body lift grows with the square of the angle of attack, so its slope grows with the angle
+    return {
+      ...surface,
+      normalForceSlope: BODY_LIFT_COEFFICIENT * surface.planformArea / referenceArea * Math.abs(Math.sin(angleOfAttack))
+    };
+  }
+  if (!surface.fins) return surface;
+  return {
+    ...surface,
+    position: finPositionAtMach(surface, surface.fins, mach),
+    normalForceSlope: finSlopeAtMach(surface, surface.fins, mach, referenceArea)
+  };
+}
+
+export function calculateNormalForceAtMach(
+  surfaces: AerodynamicSurface[],
+  mach: number,
+  referenceArea: number,
+  angleOfAttack: number = 0 // radians
+): NormalForceEvaluation {
+  const evaluated = surfaces.map(surface => surfaceAtMach(surface, mach, referenceArea, angleOfAttack));
+  const normalForceSlope = evaluated.reduce((sum, s) => sum + s.normalForceSlope, 0);
+  return {
+    normalForceSlope,
+    centerOfPressure: normalForceSlope !== 0
+      ? evaluated.reduce((sum, s) => sum + s.normalForceSlope * s.position, 0) / normalForceSlope
+      : 0,
+    surfaces: evaluated
+  };
+}
+
+export interface RollMomentEvaluation {
+  forcingMoment: number; // N·m about the body axis from fin cant
+  dampingCoefficient: number; // N·m·s/rad, opposing the roll rate
+}
+
+// Strip theory over each canted fin: a chordwise strip at radius r sees the cant angle
+// plus the roll-induced incidence ω·r/V. Surfaces must already be evaluated at the Mach number.
+export function calculateRollMoments(
+  surfaces: AerodynamicSurface[],
+  referenceArea: number,
+  dynamicPressure: number,
+  airspeed: number
+): RollMomentEvaluation {
+  return surfaces.reduce((total, surface) => {
+    const fin = surface.fins;
+    if (!fin || airspeed <= 1e-6) return total;
+    const { count, rootChord, tipChord, span, bodyRadius: r } = fin;
+    const area = finPlanform(fin).area;
+    if (area <= 0) return total;
+
+    // The set's slope counts half its fins; every fin takes the full roll incidence
+    const finSlope = 2 * surface.normalForceSlope / (count * finCountFactor(count));
+    const liftPerArea = dynamicPressure * finSlope * referenceArea / area;
+    // First and second moments of the chord about the body axis
+    const taper = (tipChord - rootChord) / span;
+    const firstMoment = rootChord * (r * span + span * span / 2) + taper * (r * span * span / 2 + span ** 3 / 3);
+    const secondMoment = rootChord * (r * r * span + r * span * span + span ** 3 / 3) +
+      taper * (r * r * span * span / 2 + 2 * r * span ** 3 / 3 + span ** 4 / 4);
+
+    return {
+      forcingMoment: total.forcingMoment + count * liftPerArea * fin.cantAngle * firstMoment,
+      dampingCoefficient: total.dampingCoefficient + count * liftPerArea * secondMoment / airspeed
+    };
+  }, { forcingMoment: 0, dampingCoefficient: 0 });
+}
@@ -0,0 +1,98 @@
+// U.S. Standard Atmosphere 1976 up to 86 km, shifted to match the launch site's
+// measured temperature and pressure, with a virtual-temperature correction for humidity.
+
+import type { LaunchConditions } from "./PhysicsEngine";
+
+export interface AtmosphericProperties {
+  temperature: number; // K
+  pressure: number; // Pa
+  density: number; // kg/m³
+  speedOfSound: number; // m/s
+  dynamicViscosity: number; // Pa·s
+}
+
+interface AtmosphereLayer {
+  baseAltitude: number; // geopotential, m
+  baseTemperature: number; // K
+  basePressure: number; // Pa
+  lapseRate: number; // K/m
+}
+
+const LAYERS: AtmosphereLayer[] = [
+  { baseAltitude: 0, baseTemperature: 288.15, basePressure: 101325, lapseRate: -0.0065 },
+  { baseAltitude: 11000, baseTemperature: 216.65, basePressure: 22632.06, lapseRate: 0 },
+  { baseAltitude: 20000, baseTemperature: 216.65, basePressure: 5474.889, lapseRate: 0.001 },
+  { baseAltitude: 32000, baseTemperature: 228.65, basePressure: 868.0187, lapseRate: 0.0028 },
+  { baseAltitude: 47000, baseTemperature: 270.65, basePressure: 110.9063, lapseRate: 0 },
+  { baseAltitude: 51000, baseTemperature: 270.65, basePressure: 66.93887, lapseRate: -0.0028 },
+  { baseAltitude: 71000, baseTemperature: 214.65, basePressure: 3.956420, lapseRate: -0.002 },
+  { baseAltitude: 84852, baseTemperature: 186.946, basePressure: 0.3734, lapseRate: 0 }
+];
+
+const EARTH_RADIUS = 6356766; // m, USSA-1976 effective radius for geopotential altitude
+const TOP_ALTITUDE = 86000; // m, geometric
+const STANDARD_GRAVITY = 9.80665; // m/s²
+const GAS_CONSTANT = 287.0531; // J/(kg·K), dry air
+const HEAT_CAPACITY_RATIO = 1.4;
+const WATER_VAPOUR_RATIO = 0.622; // molar mass of water over dry air
+const SUTHERLAND_CONSTANT = 110.4; // K
+const SUTHERLAND_REFERENCE = 1.458e-6; // kg/(m·s·K^0.5)
+
+function geopotentialAltitude(geometric: number): number {
+  return EARTH_RADIUS * geometric / (EARTH_RADIUS + geometric);
+}
+
+// Standard temperature and pressure at a geometric altitude above mean sea level
+function standardAtmosphere(altitude: number): { temperature: number; pressure: number } {
+  const h = geopotentialAltitude(Math.min(Math.max(altitude, -5000), TOP_ALTITUDE));
+  const layer = [...LAYERS].reverse().find(l => h >= l.baseAltitude) ?? LAYERS[0];
+  const dh = h - layer.baseAltitude;
+  const temperature = layer.baseTemperature + layer.lapseRate * dh;
+
+  const pressure = layer.lapseRate === 0
+    ? layer.basePressure * Math.exp(-STANDARD_GRAVITY * dh / (GAS_CONSTANT * layer.baseTemperature))
+    : layer.basePressure * Math.pow(layer.baseTemperature / temperature, STANDARD_GRAVITY / (GAS_CONSTANT * layer.lapseRate));
+
+  return { temperature, pressure };
+}
+
+// Magnus formula over water, Pa
+function saturationVapourPressure(temperature: number): number {
+  const celsius = temperature - 273.15;
+  return 610.94 * Math.exp(17.625 * celsius / (celsius + 243.04));
+}
+
+export class Atmosphere {
+  private siteElevation: number;
+  private temperatureOffset: number;
+  private pressureRatio: number;
+  private relativeHumidity: number;
+
+  constructor(launchConditions: LaunchConditions) {
+    // Offsets carry the measured ground conditions up through the standard profile
+    this.siteElevation = launchConditions.altitude;
+    const standard = standardAtmosphere(this.siteElevation);
+    this.temperatureOffset = launchConditions.temperature + 273.15 - standard.temperature;
+    this.pressureRatio = launchConditions.pressure > 0 ? launchConditions.pressure / standard.pressure : 1;
+    this.relativeHumidity = Math.min(1, Math.max(0, launchConditions.humidity));
+  }
+
+  // Properties at a height above the launch site
+  getProperties(altitude: number): AtmosphericProperties {
+    const standard = standardAtmosphere(this.siteElevation + altitude);
+    const temperature = Math.max(1, standard.temperature + this.temperatureOffset);
+    const pressure = standard.pressure * this.pressureRatio;
+
+    // Moist air is lighter; fold the water vapour into a virtual temperature
+    const vapourPressure = Math.min(this.relativeHumidity * saturationVapourPressure(temperature), pressure);
+    const virtualTemperature = temperature / (1 - (vapourPressure / pressure) * (1 - WATER_VAPOUR_RATIO));
+
+    return {
+      temperature,
+      pressure,
+      density: pressure / (GAS_CONSTANT * virtualTemperature),
+      speedOfSound: Math.sqrt(HEAT_CAPACITY_RATIO * GAS_CONSTANT * virtualTemperature),
+      dynamicViscosity: SUTHERLAND_REFERENCE * Math.pow(temperature, 1.5) / (temperature + SUTHERLAND_CONSTANT)
+    };
+  }
+}
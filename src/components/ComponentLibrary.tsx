@@ -21,6 +21,8 @@ import {
   ArrowUp,
   Umbrella
 } from "lucide-react";
+import type { DeploymentTrigger, RecoveryRole } from "./PhysicsEngine";
+import type { NoseShape } from "./Aerodynamics";
 
 export interface ComponentData {
   id: string;
@@ -36,6 +38,12 @@ export interface ComponentData {
     color: string;
     material?: string;
     thickness?: number;
+    noseShape?: NoseShape;
+    tipChord?: number; // mm
+    sweepAngle?: number; // degrees
+    recoveryRole?: RecoveryRole;
+    deploymentTrigger?: DeploymentTrigger;
+    canopyDiameter?: number; // mm
   };
   category: string;
 }
@@ -52,7 +60,24 @@ const COMPONENT_LIBRARY: ComponentData[] = [
       height: 60,
       mass: 0.05,
       dragCoefficient: 0.15,
-      color: "bg-gradient-to-b from-red-500 to-red-600"
+      color: "bg-gradient-to-b from-red-500 to-red-600",
+      noseShape: "conical"
+    },
+    category: "structure"
+  },
+  {
+    id: "nosecone-2",
+    type: "nosecone",
+    name: "Ogive Nose Cone",
+    description: "Tangent ogive, low drag at high speed",
+    icon: Navigation,
+    defaultProps: {
+      width: 40,
+      height: 120,
+      mass: 0.06,
+      dragCoefficient: 0.1,
+      color: "bg-gradient-to-b from-rose-500 to-rose-600",
+      noseShape: "ogive"
     },
     category: "structure"
   },
@@ -86,6 +111,23 @@ const COMPONENT_LIBRARY: ComponentData[] = [
     },
     category: "stability"
   },
+  {
+    id: "fins-2",
+    type: "fins",
+    name: "Swept Fin Set",
+    description: "Clipped delta fins with a swept leading edge",
+    icon: Triangle,
+    defaultProps: {
+      width: 120,
+      height: 70,
+      mass: 0.07,
+      dragCoefficient: 0.02,
+      color: "bg-gradient-to-b from-emerald-500 to-emerald-600",
+      tipChord: 30,
+      sweepAngle: 40
+    },
+    category: "stability"
+  },
   {
     id: "engine-1",
     type: "engine",
@@ -130,6 +172,39 @@ const COMPONENT_LIBRARY: ComponentData[] = [
       color: "bg-gradient-to-b from-pink-500 to-pink-600"
     },
     category: "recovery"
+  },
+  {
+    id: "drogue-1",
+    type: "parachute",
+    name: "Drogue Chute",
+    description: "Small chute opened at apogee for dual deploy",
+    icon: Umbrella,
+    defaultProps: {
+      width: 25,
+      height: 15,
+      mass: 0.02,
+      dragCoefficient: 1.5,
+      color: "bg-gradient-to-b from-orange-500 to-orange-600",
+      recoveryRole: "drogue",
+      deploymentTrigger: "apogee",
+      canopyDiameter: 120
+    },
+    category: "recovery"
+  },
+  {
+    id: "mass-1",
+    type: "mass",
+    name: "Mass Object",
+    description: "Ballast, payload or avionics",
+    icon: Cpu,
+    defaultProps: {
+      width: 30,
+      height: 30,
+      mass: 0.05,
+      dragCoefficient: 0,
+      color: "bg-gradient-to-b from-slate-500 to-slate-600"
+    },
+    category: "payload"
   }
 ];
 
@@ -155,38 +230,40 @@ export const ComponentLibrary = ({ onComponentDrag }: ComponentLibraryProps = {}
         Drag components to the canvas to build your rocket
       </p>
       
-      <div className="space-y-3">
-        {COMPONENT_LIBRARY.slice(0, 6).map((component) => (
-          <div
-            key={component.id}
-            draggable
-            onDragStart={(e) => handleDragStart(e, component)}
-            className="group cursor-move"
-          >
-            <Card className="p-3 rocket-glow hover:border-primary/50 transition-all duration-200">
-              <div className="flex items-start gap-3">
-                <div className={`w-10 h-10 rounded-lg flex items-center justify-center text-white flex-shrink-0 ${component.defaultProps.color}`}>
-                  <component.icon className="h-5 w-5" />
-                </div>
+      <ScrollArea className="h-[calc(100vh-480px)] pr-3">
+        <div className="space-y-3">
+          {COMPONENT_LIBRARY.map((component) => (
+            <div
+              key={component.id}
+              draggable
+              onDragStart={(e) => handleDragStart(e, component)}
+              className="group cursor-move"
+            >
+              <Card className="p-3 rocket-glow hover:border-primary/50 transition-all duration-200">
+                <div className="flex items-start gap-3">
+                  <div className={`w-10 h-10 rounded-lg flex items-center justify-center text-white flex-shrink-0 ${component.defaultProps.color}`}>
+                    <component.icon className="h-5 w-5" />
+                  </div>
                 
-                <div className="flex-1 min-w-0">
-                  <h4 className="font-medium text-sm truncate">{component.name}</h4>
-                  <p className="text-xs text-muted-foreground mb-2">{component.description}</p>
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-medium text-sm truncate">{component.name}</h4>
+                    <p className="text-xs text-muted-foreground mb-2">{component.description}</p>
                   
-                  <div className="flex items-center gap-1 flex-wrap">
-                    <Badge variant="outline" className="text-xs px-1">
-                      {(component.defaultProps.mass * 1000).toFixed(0)}g
-                    </Badge>
-                    <Badge variant="outline" className="text-xs px-1">
-                      Cd {component.defaultProps.dragCoefficient}
-                    </Badge>
+                    <div className="flex items-center gap-1 flex-wrap">
+                      <Badge variant="outline" className="text-xs px-1">
+                        {(component.defaultProps.mass * 1000).toFixed(0)}g
+                      </Badge>
+                      <Badge variant="outline" className="text-xs px-1">
+                        Cd {component.defaultProps.dragCoefficient}
+                      </Badge>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </Card>
-          </div>
-        ))}
-      </div>
+              </Card>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
       
       <Separator className="my-4" />
       
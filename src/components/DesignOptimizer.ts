@@ -0,0 +1,369 @@
+// Searches body length, fin size, ballast and motor for a design whose simulated apogee
+// lands on a target while meeting stability, length and ballast limits. Each motor is
+// screened once, then the most promising ones are refined with Nelder-Mead. The canopy is
+// sized for a target descent rate, and the winner's descent is checked with a full flight.
+// Every simulation runs on the worker pool: the screening and the refinements in parallel.
+
+import type { RocketComponent } from "./RocketDesigner";
+import type { LaunchConditions, MotorData, PhysicsEngine } from "./PhysicsEngine";
+import { MOTOR_DATABASE, findMotor } from "./MotorCatalog";
+import type { SweepDesign, SweepOutputs } from "./ParameterSweep";
+import { openWorkerPool, type SimulationPool } from "./SimulationClient";
+
+export interface OptimizerRequirements {
+  targetApogee: number; // m
+  apogeeTolerance: number; // m either side of the target
+  minimumMargin: number; // calibers
+  maximumLength: number; // mm, nose tip to tail
+  bodyDiameter: number; // mm
+  allowedMotors: string[]; // designations
+  maximumBallast: number; // kg
+  descentRate: number; // m/s under the chute at touchdown
+}
+
+export interface OptimizedDesign {
+  components: RocketComponent[];
+  motor: MotorData;
+  outputs: SweepOutputs;
+  length: number; // mm
+  ballast: number; // kg
+  descentRate: number | null; // m/s at touchdown from a full flight, null until checked
+  withinTolerance: boolean;
+  meetsConstraints: boolean;
+  evaluations: number;
+}
+
+export interface OptimizerProgress {
+  evaluations: number;
+  totalEvaluations: number;
+  best: OptimizedDesign | null;
+}
+
+export const DEFAULT_OPTIMIZER_REQUIREMENTS: OptimizerRequirements = {
+  targetApogee: 300,
+  apogeeTolerance: 15,
+  minimumMargin: 1,
+  maximumLength: 900,
+  bodyDiameter: 41,
+  allowedMotors: MOTOR_DATABASE.map(m => m.designation),
+  maximumBallast: 0.1,
+  descentRate: 5
+};
+
+// Search variables, each normalized to 0-1 between these bounds
+interface DesignVariables {
+  bodyLength: number; // mm
+  rootChord: number; // mm
+  finSpan: number; // mm, one fin
+  ballast: number; // kg
+}
+
+const MOTORS_REFINED = 3;
+const EVALUATIONS_PER_MOTOR = 40;
+const NOSE_FINENESS = 3; // nose length per body diameter
+const MINIMUM_BODY_LENGTH = 150; // mm
+const CANVAS_OFFSET = 50; // mm, where the generated design starts on the canvas
+const CANOPY_DRAG_COEFFICIENT = 1.3;
+const SEA_LEVEL_DENSITY = 1.225; // kg/m³
+const STANDARD_GRAVITY = 9.80665; // m/s²
+const DESCENT_RATE_TOLERANCE = 0.05; // fraction over the target a checked descent may land
+const CANOPY_RESIZES = 3;
+
+// Standard motor casing diameters by impulse class
+function motorDiameter(motor: MotorData): number {
+  const impulseClass = motor.designation.charAt(0);
+  if (impulseClass <= "C") return 18;
+  if (impulseClass <= "E") return 24;
+  if (impulseClass <= "G") return 29;
+  return 38;
+}
+
+// Canopy diameter in mm whose drag holds the landing mass at the descent rate
+function canopyDiameter(landingMass: number, descentRate: number): number {
+  const area = 2 * landingMass * STANDARD_GRAVITY /
+    (SEA_LEVEL_DENSITY * CANOPY_DRAG_COEFFICIENT * descentRate * descentRate);
+  return Math.ceil(Math.sqrt(4 * area / Math.PI) * 1000);
+}
+
+function decodeVariables(x: number[], requirements: OptimizerRequirements): DesignVariables {
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  const diameter = requirements.bodyDiameter;
+  const maximumBody = Math.max(MINIMUM_BODY_LENGTH, requirements.maximumLength - NOSE_FINENESS * diameter);
+  return {
+    bodyLength: MINIMUM_BODY_LENGTH + clamp(x[0]) * (maximumBody - MINIMUM_BODY_LENGTH),
+    rootChord: diameter * (0.75 + clamp(x[1]) * 1.75),
+    finSpan: diameter * (0.5 + clamp(x[2]) * 1.5),
+    ballast: clamp(x[3]) * requirements.maximumBallast
+  };
+}
+
+export function buildCandidate(
+  engine: PhysicsEngine,
+  variables: DesignVariables,
+  motor: MotorData,
+  requirements: OptimizerRequirements
+): RocketComponent[] {
+  const diameter = requirements.bodyDiameter;
+  const noseLength = NOSE_FINENESS * diameter;
+  const bodyTop = CANVAS_OFFSET + noseLength;
+  const bodyBottom = bodyTop + variables.bodyLength;
+  const rootChord = Math.min(variables.rootChord, variables.bodyLength);
+  const mountLength = Math.min(70, variables.bodyLength);
+
+  const components: RocketComponent[] = [
+    {
+      id: "nose-1",
+      type: "nosecone",
+      name: "Nose Cone",
+      x: CANVAS_OFFSET,
+      y: CANVAS_OFFSET,
+      width: diameter,
+      height: noseLength,
+      mass: 0,
+      dragCoefficient: 0.15,
+      color: "bg-gradient-to-b from-blue-500 to-blue-600",
+      material: "plastic",
+      noseShape: "ogive",
+      thickness: 1.5
+    },
+    {
+      id: "body-1",
+      type: "bodytube",
+      name: "Main Body Tube",
+      x: CANVAS_OFFSET,
+      y: bodyTop,
+      width: diameter,
+      height: variables.bodyLength,
+      mass: 0,
+      dragCoefficient: 0.45,
+      color: "bg-gradient-to-b from-red-500 to-red-600",
+      material: "cardboard",
+      thickness: 1,
+      railGuide: "launchLug"
+    },
+    {
+      id: "fins-1",
+      type: "fins",
+      name: "3-Fin Set",
+      x: CANVAS_OFFSET,
+      y: bodyBottom - rootChord,
+      width: diameter + 2 * variables.finSpan,
+      height: rootChord,
+      mass: 0,
+      dragCoefficient: 0.06,
+      color: "bg-gradient-to-r from-green-500 to-green-600",
+      material: "plastic",
+      finCount: 3,
+      tipChord: rootChord / 2,
+      sweepAngle: 30,
+      thickness: 3
+    },
+    {
+      id: "engine-1",
+      type: "engine",
+      name: `${motor.designation} Engine Mount`,
+      x: CANVAS_OFFSET,
+      y: bodyBottom - mountLength,
+      width: motorDiameter(motor),
+      height: mountLength,
+      mass: 0.02,
+      dragCoefficient: 0,
+      color: "bg-gradient-to-b from-yellow-500 to-orange-500",
+      motorType: motor.designation
+    },
+    {
+      id: "recovery-1",
+      type: "parachute",
+      name: "Recovery System",
+      x: CANVAS_OFFSET,
+      y: bodyTop + 10,
+      width: diameter * 0.8,
+      height: 30,
+      mass: 0.03,
+      dragCoefficient: CANOPY_DRAG_COEFFICIENT,
+      color: "bg-gradient-to-r from-purple-400 to-pink-400"
+    }
+  ];
+
+  if (variables.ballast > 0.001) {
+    // Nose weight, as far forward as it fits
+    components.push({
+      id: "ballast-1",
+      type: "mass",
+      name: "Nose Ballast",
+      x: CANVAS_OFFSET,
+      y: CANVAS_OFFSET + noseLength / 2,
+      width: diameter * 0.5,
+      height: 15,
+      mass: variables.ballast,
+      dragCoefficient: 0,
+      color: "bg-gradient-to-b from-slate-500 to-slate-600"
+    });
+  }
+
+  // Shell and fin masses come from their geometry and material
+  const materialMasses = engine.calculateComponentMassProperties(components);
+  const weighed = components.map((component, i) => ({
+    ...component,
+    mass: materialMasses[i].materialMass ?? component.mass
+  }));
+
+  // Sized for everything that comes down, spent casing included
+  const landingMass = weighed.reduce((sum, c) => sum + c.mass, 0) + motor.totalMass - motor.propellantMass;
+  const canopy = canopyDiameter(landingMass, requirements.descentRate);
+  return weighed.map(c => c.type === "parachute" ? { ...c, canopyDiameter: canopy } : c);
+}
+
+// The search stops its flights at apogee, so the chosen design is flown to the ground once;
+// a canopy that lands too fast is scaled up, since descent rate goes inversely with diameter
+async function checkDescent(
+  engine: PhysicsEngine,
+  pool: SimulationPool,
+  design: OptimizedDesign,
+  requirements: OptimizerRequirements,
+  launchConditions: LaunchConditions
+): Promise<OptimizedDesign> {
+  const descentOk = (rate: number | null) => rate !== null && rate <= requirements.descentRate * (1 + DESCENT_RATE_TOLERANCE);
+  const landingDescentRate = async (parts: RocketComponent[]) => {
+    const stages = engine.buildStages(parts, design.motor, []);
+    const [primary] = await pool.run({ kind: "flight", stages, launchConditions, options: {} });
+    return primary.events.find(e => e.type === "landing")?.state.descentRate ?? null;
+  };
+
+  let components = design.components;
+  let descentRate = await landingDescentRate(components);
+  for (let i = 0; i < CANOPY_RESIZES && descentRate !== null && !descentOk(descentRate); i++) {
+    const scale = descentRate / requirements.descentRate;
+    components = components.map(c => c.type === "parachute" && c.canopyDiameter
+      ? { ...c, canopyDiameter: Math.ceil(c.canopyDiameter * scale) }
+      : c);
+    descentRate = await landingDescentRate(components);
+  }
+
+  // A bigger canopy opening before apogee costs altitude, so the outputs are redone
+  const outputs = components === design.components
+    ? design.outputs
+    : await pool.run({ kind: "evaluate", design: { components, motor: design.motor, stageConfigurations: [], launchConditions } });
+  return {
+    ...design,
+    components,
+    outputs,
+    descentRate,
+    withinTolerance: Math.abs(outputs.apogee - requirements.targetApogee) <= requirements.apogeeTolerance,
+    meetsConstraints: outputs.staticMargin >= requirements.minimumMargin && descentOk(descentRate)
+  };
+}
+
+function objective(outputs: SweepOutputs, variables: DesignVariables, requirements: OptimizerRequirements): number {
+  // Apogee error in tolerance widths, with constraint violations costing far more
+  const apogeeError = (outputs.apogee - requirements.targetApogee) / Math.max(1, requirements.apogeeTolerance);
+  const marginDeficit = Math.max(0, requirements.minimumMargin - outputs.staticMargin);
+  const ballastShare = requirements.maximumBallast > 0 ? variables.ballast / requirements.maximumBallast : 0;
+  return apogeeError * apogeeError + 100 * marginDeficit * marginDeficit + 0.01 * ballastShare;
+}
+
+type Objective = (x: number[]) => Promise<number>;
+
+// Nelder-Mead simplex search, stopping after a fixed number of evaluations
+async function nelderMead(f: Objective, start: number[], step: number, maxEvaluations: number): Promise<void> {
+  let evaluations = 0;
+  const evaluate = async (x: number[]) => {
+    evaluations++;
+    return { x, value: await f(x) };
+  };
+
+  const simplex = [await evaluate(start)];
+  for (let i = 0; i < start.length; i++) {
+    const x = [...start];
+    x[i] += x[i] + step <= 1 ? step : -step;
+    simplex.push(await evaluate(x));
+  }
+
+  while (evaluations < maxEvaluations) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    const secondWorst = simplex[simplex.length - 2];
+    const centroid = start.map((_, i) =>
+      simplex.slice(0, -1).reduce((sum, vertex) => sum + vertex.x[i], 0) / (simplex.length - 1));
+    const along = (t: number) => centroid.map((c, i) => c + t * (worst.x[i] - c));
+
+    const reflected = await evaluate(along(-1));
+    if (reflected.value < best.value) {
+      const expanded = await evaluate(along(-2));
+      simplex[simplex.length - 1] = expanded.value < reflected.value ? expanded : reflected;
+    } else if (reflected.value < secondWorst.value) {
+      simplex[simplex.length - 1] = reflected;
+    } else {
+      const contracted = await evaluate(along(reflected.value < worst.value ? -0.5 : 0.5));
+      if (contracted.value < Math.min(worst.value, reflected.value)) {
+        simplex[simplex.length - 1] = contracted;
+      } else {
+        // Shrink toward the best vertex
+        for (let i = 1; i < simplex.length && evaluations < maxEvaluations; i++) {
+          simplex[i] = await evaluate(simplex[i].x.map((v, j) => best.x[j] + 0.5 * (v - best.x[j])));
+        }
+      }
+    }
+  }
+}
+
+export async function optimizeDesign(
+  engine: PhysicsEngine,
+  requirements: OptimizerRequirements,
+  launchConditions: LaunchConditions,
+  onProgress?: (progress: OptimizerProgress) => void,
+  signal?: AbortSignal
+): Promise<OptimizedDesign | null> {
+  const motors = requirements.allowedMotors
+    .map(designation => findMotor(designation))
+    .filter((motor): motor is MotorData => motor !== null);
+  if (motors.length === 0) return null;
+
+  const totalEvaluations = motors.length + Math.min(MOTORS_REFINED, motors.length) * EVALUATIONS_PER_MOTOR;
+  const search = { evaluations: 0, best: null as OptimizedDesign | null, bestValue: Infinity };
+
+  const pool = openWorkerPool(signal);
+
+  const run = async (x: number[], motor: MotorData) => {
+    const variables = decodeVariables(x, requirements);
+    const components = buildCandidate(engine, variables, motor, requirements);
+    const design: SweepDesign = { components, motor, stageConfigurations: [], launchConditions };
+    const outputs = await pool.run({ kind: "evaluate", design });
+    const value = objective(outputs, variables, requirements);
+    search.evaluations++;
+
+    if (value < search.bestValue) {
+      search.bestValue = value;
+      search.best = {
+        components,
+        motor,
+        outputs,
+        length: NOSE_FINENESS * requirements.bodyDiameter + variables.bodyLength,
+        ballast: variables.ballast,
+        descentRate: null,
+        withinTolerance: Math.abs(outputs.apogee - requirements.targetApogee) <= requirements.apogeeTolerance,
+        meetsConstraints: outputs.staticMargin >= requirements.minimumMargin,
+        evaluations: search.evaluations
+      };
+    }
+    onProgress?.({ evaluations: search.evaluations, totalEvaluations, best: search.best });
+    return value;
+  };
+
+  try {
+    // Screen every motor on a mid-sized airframe without ballast
+    const start = [0.5, 0.5, 0.5, 0];
+    const screened = await Promise.all(motors.map(async motor => ({ motor, value: await run(start, motor) })));
+
+    // Each refinement is sequential, but the motors' refinements run side by side
+    screened.sort((a, b) => a.value - b.value);
+    await Promise.all(screened.slice(0, MOTORS_REFINED).map(({ motor }) =>
+      nelderMead(x => run(x, motor), start, 0.25, EVALUATIONS_PER_MOTOR)));
+
+    if (!search.best) return null;
+    return await checkDescent(engine, pool, { ...search.best, evaluations: search.evaluations }, requirements, launchConditions);
+  } finally {
+    pool.close();
+  }
+}
@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, AlertTriangle, Square, Target } from "lucide-react";
+import type { RocketComponent } from "./RocketDesigner";
+import { PhysicsEngine, type LaunchConditions } from "./PhysicsEngine";
+import { MOTOR_DATABASE } from "./MotorCatalog";
+import {
+  DEFAULT_OPTIMIZER_REQUIREMENTS,
+  optimizeDesign,
+  type OptimizedDesign,
+  type OptimizerRequirements
+} from "./DesignOptimizer";
+import { isCancellation } from "./SimulationClient";
+
+interface DesignOptimizerPanelProps {
+  launchConditions: LaunchConditions;
+  onApplyDesign: (design: RocketComponent[]) => void;
+}
+
+const REQUIREMENT_FIELDS: Array<{ key: Exclude<keyof OptimizerRequirements, "allowedMotors">; label: string; step: number }> = [
+  { key: "targetApogee", label: "Target Apogee (m)", step: 10 },
+  { key: "apogeeTolerance", label: "Tolerance ± (m)", step: 1 },
+  { key: "minimumMargin", label: "Min Margin (cal)", step: 0.1 },
+  { key: "maximumLength", label: "Max Length (mm)", step: 10 },
+  { key: "bodyDiameter", label: "Body Diameter (mm)", step: 1 },
+  { key: "maximumBallast", label: "Max Ballast (kg)", step: 0.01 },
+  { key: "descentRate", label: "Descent Rate (m/s)", step: 0.5 }
+];
+
+export const DesignOptimizerPanel = ({ launchConditions, onApplyDesign }: DesignOptimizerPanelProps) => {
+  const [requirements, setRequirements] = useState<OptimizerRequirements>(DEFAULT_OPTIMIZER_REQUIREMENTS);
+  const [result, setResult] = useState<OptimizedDesign | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleMotor = (designation: string, allowed: boolean) => {
+    setRequirements(prev => ({
+      ...prev,
+      allowedMotors: allowed
+        ? [...prev.allowedMotors, designation]
+        : prev.allowedMotors.filter(m => m !== designation)
+    }));
+  };
+
+  const startOptimization = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    try {
+      const design = await optimizeDesign(
+        new PhysicsEngine(),
+        requirements,
+        launchConditions,
+        ({ evaluations, totalEvaluations, best }) => {
+          setProgress((evaluations / totalEvaluations) * 100);
+          setResult(best);
+        },
+        controller.signal
+      );
+      setResult(design);
+    } catch (error) {
+      // A cancelled search keeps the best design found so far
+      if (!isCancellation(error)) setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Target className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Design Optimizer</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {REQUIREMENT_FIELDS.map(({ key, label, step }) => (
+          <div key={key}>
+            <Label className="text-xs">{label}</Label>
+            <Input
+              type="number"
+              value={requirements[key]}
+              onChange={(e) => setRequirements(prev => ({ ...prev, [key]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+              min="0"
+              step={step}
+            />
+          </div>
+        ))}
+      </div>
+
+      <Label className="text-xs">Allowed Motors</Label>
+      <div className="grid grid-cols-3 gap-1 mt-1 mb-4">
+        {MOTOR_DATABASE.map(motor => (
+          <label key={motor.designation} className="flex items-center gap-1 text-xs">
+            <Checkbox
+              checked={requirements.allowedMotors.includes(motor.designation)}
+              onCheckedChange={(checked) => toggleMotor(motor.designation, checked === true)}
+            />
+            {motor.designation}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mb-3">
+        <Button
+          size="sm"
+          onClick={startOptimization}
+          disabled={progress !== null || requirements.allowedMotors.length === 0}
+        >
+          <Target className="h-4 w-4 mr-1" />
+          Optimize
+        </Button>
+        {progress !== null && (
+          <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+            <Square className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+        )}
+      </div>
+      {progress !== null && <Progress value={progress} className="h-2 mb-3" />}
+      {error && <p className="text-xs text-destructive mb-3">Optimization failed: {error}</p>}
+
+      {result && (
+        <div className="space-y-2 text-xs">
+          <div className="flex items-center gap-2">
+            {result.withinTolerance && result.meetsConstraints ? (
+              <CheckCircle className="h-4 w-4 text-rocket-success" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 text-rocket-warning" />
+            )}
+            <span className="font-medium">
+              {result.withinTolerance && result.meetsConstraints
+                ? "Verified design meets the requirements"
+                : progress !== null ? "Best design so far" : "No design met every requirement; closest found"}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-1">
+            <div>
+              <span className="text-muted-foreground">Motor:</span>
+              <Badge variant="outline" className="ml-1">{result.motor.designation}</Badge>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Apogee:</span>
+              <span className={`ml-1 font-medium ${result.withinTolerance ? "text-rocket-success" : "text-rocket-warning"}`}>
+                {result.outputs.apogee.toFixed(1)} m
+              </span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Static margin:</span>
+              <span className={`ml-1 font-medium ${result.meetsConstraints ? "text-rocket-success" : "text-destructive"}`}>
+                {result.outputs.staticMargin.toFixed(2)} cal
+              </span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Length:</span>
+              <span className="ml-1 font-medium">{result.length.toFixed(0)} mm</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Ballast:</span>
+              <span className="ml-1 font-medium">{(result.ballast * 1000).toFixed(0)} g</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Max velocity:</span>
+              <span className="ml-1 font-medium">{result.outputs.maxVelocity.toFixed(1)} m/s</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Descent rate:</span>
+              <span className="ml-1 font-medium">
+                {result.descentRate === null ? "—" : `${result.descentRate.toFixed(1)} m/s`}
+              </span>
+            </div>
+          </div>
+          <p className="text-muted-foreground">{result.evaluations} simulations run</p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={progress !== null}
+            onClick={() => onApplyDesign(result.components)}
+          >
+            Apply Design
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -20,6 +21,17 @@ import {
   CheckCircle
 } from "lucide-react";
 import type { RocketComponent } from "./RocketDesigner";
+import { MOTOR_DATABASE } from "./MotorCatalog";
+import {
+  DEFAULT_FIN_PROFILE,
+  DEFAULT_SURFACE_FINISH,
+  type FinProfile,
+  type RailGuide,
+  type SurfaceFinish
+} from "./DragModel";
+import { DEFAULT_NOSE_SHAPE, type NoseShape } from "./Aerodynamics";
+import { DEFAULT_MATERIAL, MATERIALS } from "./MassModel";
+import { PhysicsEngine } from "./PhysicsEngine";
 
 interface DetailedComponentPropertiesProps {
   component: RocketComponent | null;
@@ -27,57 +39,32 @@ interface DetailedComponentPropertiesProps {
   onClose: () => void;
 }
 
-interface MaterialProperty {
-  name: string;
-  density: number; // kg/m³
-  tensileStrength: number; // MPa
-  cost: number; // relative cost factor
-  description: string;
-}
+const SURFACE_FINISHES: Record<SurfaceFinish, string> = {
+  polished: "Polished",
+  smoothPaint: "Smooth Paint",
+  regularPaint: "Regular Paint",
+  unfinished: "Unfinished",
+  rough: "Rough"
+};
+
+const NOSE_SHAPES: Record<NoseShape, string> = {
+  conical: "Conical",
+  ogive: "Tangent Ogive",
+  parabolic: "Parabolic",
+  ellipsoid: "Ellipsoid",
+  haack: "Von Kármán"
+};
+
+const FIN_PROFILES: Record<FinProfile, string> = {
+  square: "Square",
+  rounded: "Rounded",
+  airfoil: "Airfoil"
+};
 
-const MATERIALS: Record<string, MaterialProperty> = {
-  cardboard: {
-    name: "Cardboard",
-    density: 700,
-    tensileStrength: 2,
-    cost: 1,
-    description: "Basic paper tube, suitable for low-power rockets"
-  },
-  phenolic: {
-    name: "Phenolic",
-    density: 1350,
-    tensileStrength: 55,
-    cost: 3,
-    description: "High-strength paper-phenolic composite"
-  },
-  fiberglass: {
-    name: "Fiberglass",
-    density: 1800,
-    tensileStrength: 400,
-    cost: 5,
-    description: "Glass fiber reinforced plastic"
-  },
-  carbonFiber: {
-    name: "Carbon Fiber",
-    density: 1600,
-    tensileStrength: 600,
-    cost: 10,
-    description: "Ultra-lightweight, high-strength carbon composite"
-  },
-  aluminum: {
-    name: "Aluminum",
-    density: 2700,
-    tensileStrength: 310,
-    cost: 4,
-    description: "Lightweight metal construction"
-  },
-  plastic: {
-    name: "ABS Plastic",
-    density: 1050,
-    tensileStrength: 40,
-    cost: 2,
-    description: "Injection molded thermoplastic"
-  }
+const RAIL_GUIDES: Record<RailGuide, string> = {
+  none: "None",
+  launchLug: "Launch Lug",
+  railButtons: "Rail Buttons"
 };
 
 export const DetailedComponentProperties = ({ 
@@ -86,11 +73,6 @@ export const DetailedComponentProperties = ({
   onClose 
 }: DetailedComponentPropertiesProps) => {
   const [localComponent, setLocalComponent] = useState<RocketComponent | null>(component);
-  const [material, setMaterial] = useState("cardboard");
-  const [thickness, setThickness] = useState([2]); // mm
-  const [finCount, setFinCount] = useState([3]);
-  const [finSweep, setFinSweep] = useState([0]); // degrees
-  const [finThickness, setFinThickness] = useState([3]); // mm
 
   useEffect(() => {
     setLocalComponent(component);
@@ -98,62 +80,28 @@ export const DetailedComponentProperties = ({
 
   if (!localComponent) return null;
 
+  const deploymentTrigger = localComponent.deploymentTrigger ??
+    (localComponent.deploymentAltitude !== undefined ? 'altitude' : 'ejection');
+  const material = localComponent.material && MATERIALS[localComponent.material] ? localComponent.material : DEFAULT_MATERIAL;
+  const thickness = [localComponent.thickness ?? 2]; // mm, wall
+  const finThickness = [localComponent.thickness ?? 3]; // mm
+  const finCount = [localComponent.finCount ?? 3];
+  const finSweep = [localComponent.sweepAngle ?? 0]; // degrees
+  const finCant = [localComponent.cantAngle ?? 0]; // degrees
+  const isAirframe = ['nosecone', 'bodytube', 'transition', 'fins'].includes(localComponent.type);
+
   const updateProperty = (property: string, value: any) => {
     const updated = { ...localComponent, [property]: value };
     setLocalComponent(updated);
     onComponentUpdate(localComponent.id, { [property]: value });
   };
 
-  const calculateMass = () => {
-    const mat = MATERIALS[material];
-    let volume = 0;
-
-    switch (localComponent.type) {
-      case 'bodytube':
-        const radius = localComponent.width / 2 / 100; // Convert to meters
-        const length = localComponent.height / 100;
-        const innerRadius = Math.max(0, radius - thickness[0] / 1000);
-        volume = Math.PI * length * (radius * radius - innerRadius * innerRadius);
-        break;
-      
-      case 'nosecone':
-        const noseRadius = localComponent.width / 2 / 100;
-        const noseLength = localComponent.height / 100;
-        volume = (Math.PI * noseRadius * noseRadius * noseLength) / 3 * 0.6; // Hollow cone approximation
-        break;
-      
-      case 'fins':
-        const finArea = (localComponent.width * localComponent.height) / 10000; // Convert to m²
-        volume = finArea * finThickness[0] / 1000 * finCount[0];
-        break;
-      
-      default:
-        volume = (localComponent.width * localComponent.height * 10) / 1000000; // Rough approximation
-    }
-
-    const mass = volume * mat.density / 1000; // Convert to kg
-    updateProperty('mass', parseFloat(mass.toFixed(4)));
-  };
-
-  const calculateDragCoefficient = () => {
-    let cd = 0.45; // Default
-
-    switch (localComponent.type) {
-      case 'nosecone':
-        cd = 0.15; // Streamlined nose
-        break;
-      case 'bodytube':
-        cd = 0.45; // Cylindrical body
-        break;
-      case 'fins':
-        cd = 0.02 * finCount[0]; // Fin drag
-        break;
-      case 'parachute':
-        cd = 1.3; // Deployed parachute
-        break;
-    }
+  // Mass the part would have from its geometry and material; null for parts entered by mass
+  const materialMass = new PhysicsEngine().calculateComponentMassProperties([localComponent])[0]?.materialMass ?? null;
 
-    updateProperty('dragCoefficient', cd);
+  const calculateMass = () => {
+    if (materialMass === null) return;
+    updateProperty('mass', parseFloat(materialMass.toFixed(4)));
   };
 
   const getComponentValidation = () => {
@@ -166,7 +114,6 @@ export const DetailedComponentProperties = ({
     }
 
     // Material-specific validation
-    const mat = MATERIALS[material];
     if (localComponent.type === 'bodytube' && thickness[0] < 1) {
       warnings.push("Very thin wall thickness may compromise structural integrity");
     }
@@ -175,6 +122,10 @@ export const DetailedComponentProperties = ({
       warnings.push("Less than 3 fins may cause instability");
     }
 
+    if (localComponent.type === 'parachute' && deploymentTrigger === 'timer' && (localComponent.deploymentDelay ?? 0) < 1) {
+      warnings.push("Timer opens the parachute at liftoff, under thrust");
+    }
+
     if (localComponent.mass > 1) {
       warnings.push("Heavy component may affect performance");
     }
@@ -260,13 +211,49 @@ export const DetailedComponentProperties = ({
                   />
                 </div>
 
+                {localComponent.type === 'nosecone' && (
+                  <div>
+                    <Label>Nose Shape</Label>
+                    <Select
+                      value={localComponent.noseShape ?? DEFAULT_NOSE_SHAPE}
+                      onValueChange={(value) => updateProperty('noseShape', value as NoseShape)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(NOSE_SHAPES).map(([key, label]) => (
+                          <SelectItem key={key} value={key}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 {localComponent.type === 'fins' && (
                   <>
+                    <p className="text-xs text-muted-foreground">
+                      Height is the root chord; width spans fin tip to fin tip across the body.
+                    </p>
+                    <div>
+                      <Label className="flex items-center gap-2">
+                        <Ruler className="h-4 w-4" />
+                        Tip Chord (mm)
+                      </Label>
+                      <Input
+                        type="number"
+                        value={localComponent.tipChord ?? localComponent.height}
+                        onChange={(e) => updateProperty('tipChord', Math.max(0, parseFloat(e.target.value) || 0))}
+                        min="0"
+                        max={localComponent.height * 2}
+                      />
+                    </div>
+
                     <div>
                       <Label>Fin Count: {finCount[0]}</Label>
                       <Slider
                         value={finCount}
-                        onValueChange={setFinCount}
+                        onValueChange={(value) => updateProperty('finCount', value[0])}
                         min={3}
                         max={8}
                         step={1}
@@ -275,16 +262,31 @@ export const DetailedComponentProperties = ({
                     </div>
                     
                     <div>
-                      <Label>Sweep Angle: {finSweep[0]}°</Label>
+                      <Label>Leading-Edge Sweep: {finSweep[0]}°</Label>
                       <Slider
                         value={finSweep}
-                        onValueChange={setFinSweep}
+                        onValueChange={(value) => updateProperty('sweepAngle', value[0])}
                         min={0}
-                        max={45}
+                        max={70}
                         step={1}
                         className="mt-2"
                       />
                     </div>
+
+                    <div>
+                      <Label>Cant Angle: {finCant[0].toFixed(1)}°</Label>
+                      <Slider
+                        value={finCant}
+                        onValueChange={(value) => updateProperty('cantAngle', value[0])}
+                        min={-5}
+                        max={5}
+                        step={0.1}
+                        className="mt-2"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Spins the rocket about its axis; small misalignments act the same way.
+                      </p>
+                    </div>
                   </>
                 )}
               </div>
@@ -293,7 +295,7 @@ export const DetailedComponentProperties = ({
             <TabsContent value="material" className="space-y-4">
               <div>
                 <Label>Material Type</Label>
-                <Select value={material} onValueChange={setMaterial}>
+                <Select value={material} onValueChange={(value) => updateProperty('material', value)}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -334,12 +336,12 @@ export const DetailedComponentProperties = ({
                 </div>
               </div>
 
-              {(localComponent.type === 'bodytube' || localComponent.type === 'nosecone') && (
+              {(localComponent.type === 'bodytube' || localComponent.type === 'nosecone' || localComponent.type === 'transition' || localComponent.type === 'engine') && (
                 <div>
                   <Label>Wall Thickness: {thickness[0]} mm</Label>
                   <Slider
                     value={thickness}
-                    onValueChange={setThickness}
+                    onValueChange={(value) => updateProperty('thickness', value[0])}
                     min={0.5}
                     max={10}
                     step={0.1}
@@ -353,7 +355,7 @@ export const DetailedComponentProperties = ({
                   <Label>Fin Thickness: {finThickness[0]} mm</Label>
                   <Slider
                     value={finThickness}
-                    onValueChange={setFinThickness}
+                    onValueChange={(value) => updateProperty('thickness', value[0])}
                     min={1}
                     max={12}
                     step={0.5}
@@ -362,15 +364,60 @@ export const DetailedComponentProperties = ({
                 </div>
               )}
 
-              <div className="flex gap-2">
-                <Button onClick={calculateMass} size="sm" className="flex-1">
+              {localComponent.type === 'fins' && (
+                <div>
+                  <Label>Fin Profile</Label>
+                  <Select
+                    value={localComponent.finProfile ?? DEFAULT_FIN_PROFILE}
+                    onValueChange={(value) => updateProperty('finProfile', value as FinProfile)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(FIN_PROFILES).map(([key, label]) => (
+                        <SelectItem key={key} value={key}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {isAirframe && (
+                <div>
+                  <Label className="flex items-center gap-2">
+                    <Wind className="h-4 w-4" />
+                    Surface Finish
+                  </Label>
+                  <Select
+                    value={localComponent.surfaceFinish ?? DEFAULT_SURFACE_FINISH}
+                    onValueChange={(value) => updateProperty('surfaceFinish', value as SurfaceFinish)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SURFACE_FINISHES).map(([key, label]) => (
+                        <SelectItem key={key} value={key}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Rougher surfaces raise skin friction drag
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <Button onClick={calculateMass} size="sm" className="w-full" disabled={materialMass === null}>
                   <Calculator className="h-4 w-4 mr-2" />
                   Calculate Mass
                 </Button>
-                <Button onClick={calculateDragCoefficient} size="sm" variant="outline" className="flex-1">
-                  <Wind className="h-4 w-4 mr-2" />
-                  Calculate Drag
-                </Button>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {materialMass === null
+                    ? "Enter this part's mass directly on the Advanced tab"
+                    : `${(materialMass * 1000).toFixed(1)} g from geometry and material`}
+                </p>
               </div>
             </TabsContent>
 
@@ -391,20 +438,50 @@ export const DetailedComponentProperties = ({
                 </div>
 
                 <div>
-                  <Label className="flex items-center gap-2">
-                    <Wind className="h-4 w-4" />
-                    Drag Coefficient
-                  </Label>
+                  <Label>Recovery Section</Label>
                   <Input
-                    type="number"
-                    value={localComponent.dragCoefficient}
-                    onChange={(e) => updateProperty('dragCoefficient', parseFloat(e.target.value) || 0)}
-                    min="0"
-                    max="2"
-                    step="0.01"
+                    value={localComponent.recoverySection ?? ''}
+                    onChange={(e) => updateProperty('recoverySection', e.target.value || undefined)}
+                    placeholder={localComponent.type === 'nosecone' ? 'Nose' : 'Same as its stage'}
                   />
                 </div>
 
+                {localComponent.type === 'parachute' && (
+                  <div>
+                    <Label className="flex items-center gap-2">
+                      <Wind className="h-4 w-4" />
+                      Canopy Drag Coefficient
+                    </Label>
+                    <Input
+                      type="number"
+                      value={localComponent.dragCoefficient}
+                      onChange={(e) => updateProperty('dragCoefficient', parseFloat(e.target.value) || 0)}
+                      min="0"
+                      max="2"
+                      step="0.01"
+                    />
+                  </div>
+                )}
+
+                {localComponent.type === 'bodytube' && (
+                  <div>
+                    <Label>Rail Guide</Label>
+                    <Select
+                      value={localComponent.railGuide ?? 'none'}
+                      onValueChange={(value) => updateProperty('railGuide', value as RailGuide)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(RAIL_GUIDES).map(([key, label]) => (
+                          <SelectItem key={key} value={key}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div>
                   <Label>Component Name</Label>
                   <Input
@@ -413,8 +490,174 @@ export const DetailedComponentProperties = ({
                     placeholder="Custom component name"
                   />
                 </div>
+
+                <div>
+                  <Label>Stage</Label>
+                  <Input
+                    type="number"
+                    value={localComponent.stage ?? 0}
+                    onChange={(e) => updateProperty('stage', Math.max(0, parseInt(e.target.value) || 0))}
+                    min="0"
+                    step="1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    0 is the upper stage; boosters below it use 1, 2, ...
+                  </p>
+                </div>
+
+                {localComponent.type === 'engine' && (
+                  <>
+                    <div>
+                      <Label>Motor</Label>
+                      <Select
+                        value={localComponent.motorType ?? 'selected'}
+                        onValueChange={(value) => updateProperty('motorType', value === 'selected' ? undefined : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="selected">Selected motor</SelectItem>
+                          {MOTOR_DATABASE.map(motor => (
+                            <SelectItem key={motor.designation} value={motor.designation}>
+                              {motor.designation}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label>Radial Offset (mm)</Label>
+                        <Input
+                          type="number"
+                          value={localComponent.radialOffset ?? 0}
+                          onChange={(e) => updateProperty('radialOffset', parseFloat(e.target.value) || 0)}
+                          min="0"
+                          step="1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Radial Angle (°)</Label>
+                        <Input
+                          type="number"
+                          value={localComponent.radialAngle ?? 0}
+                          onChange={(e) => updateProperty('radialAngle', parseFloat(e.target.value) || 0)}
+                          step="15"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label>Ignition Delay (s)</Label>
+                      <Input
+                        type="number"
+                        value={localComponent.ignitionDelay ?? 0}
+                        onChange={(e) => updateProperty('ignitionDelay', parseFloat(e.target.value) || 0)}
+                        min="0"
+                        step="0.1"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        After its stage lights; use for air-starts
+                      </p>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label>Ignition Failure</Label>
+                      <Switch
+                        checked={localComponent.ignitionFailure ?? false}
+                        onCheckedChange={(checked) => updateProperty('ignitionFailure', checked)}
+                      />
+                    </div>
+                  </>
+                )}
               </div>
 
+              {localComponent.type === 'parachute' && (
+                <>
+                  <Separator />
+                  <div className="space-y-3">
+                    <h4 className="font-medium">Recovery</h4>
+                    <div>
+                      <Label>Canopy Diameter (mm)</Label>
+                      <Input
+                        type="number"
+                        value={localComponent.canopyDiameter ?? 300}
+                        onChange={(e) => updateProperty('canopyDiameter', parseFloat(e.target.value) || 0)}
+                        min="0"
+                        step="10"
+                      />
+                    </div>
+                    <div>
+                      <Label>Inflation Time (s)</Label>
+                      <Input
+                        type="number"
+                        value={localComponent.inflationTime ?? 0.5}
+                        onChange={(e) => updateProperty('inflationTime', parseFloat(e.target.value) || 0)}
+                        min="0"
+                        step="0.1"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label>Role</Label>
+                        <Select
+                          value={localComponent.recoveryRole ?? 'main'}
+                          onValueChange={(value) => updateProperty('recoveryRole', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="drogue">Drogue</SelectItem>
+                            <SelectItem value="main">Main</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label>Trigger</Label>
+                        <Select
+                          value={deploymentTrigger}
+                          onValueChange={(value) => updateProperty('deploymentTrigger', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="apogee">Apogee</SelectItem>
+                            <SelectItem value="ejection">Motor Ejection</SelectItem>
+                            <SelectItem value="altitude">Altitude on Descent</SelectItem>
+                            <SelectItem value="timer">Timer</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    {deploymentTrigger === 'altitude' && (
+                      <div>
+                        <Label>Deployment Altitude (m)</Label>
+                        <Input
+                          type="number"
+                          value={localComponent.deploymentAltitude ?? 0}
+                          onChange={(e) => updateProperty('deploymentAltitude', parseFloat(e.target.value) || 0)}
+                          min="0"
+                          step="10"
+                        />
+                      </div>
+                    )}
+                    {deploymentTrigger === 'timer' && (
+                      <div>
+                        <Label>Time After Ignition (s)</Label>
+                        <Input
+                          type="number"
+                          value={localComponent.deploymentDelay ?? 0}
+                          onChange={(e) => updateProperty('deploymentDelay', parseFloat(e.target.value) || 0)}
+                          min="0"
+                          step="0.5"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+
               <Separator />
 
               {/* Validation Results */}
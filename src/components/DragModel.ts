@@ -0,0 +1,231 @@
+// Component-buildup drag estimate (Barrowman / OpenRocket style): skin friction,
+// nose and transition pressure drag, fin profile and interference drag, base drag
+// and rail guide drag, all referenced to the rocket's reference area. Every term
+// follows the Mach number through the transonic drag rise into supersonic flight.
+
+import type { NoseShape } from "./Aerodynamics";
+
+export type SurfaceFinish = "polished" | "smoothPaint" | "regularPaint" | "unfinished" | "rough";
+export type FinProfile = "square" | "rounded" | "airfoil";
+export type RailGuide = "none" | "launchLug" | "railButtons";
+
+// Equivalent sand-grain roughness height, m
+export const SURFACE_ROUGHNESS: Record<SurfaceFinish, number> = {
+  polished: 2e-6,
+  smoothPaint: 20e-6,
+  regularPaint: 60e-6,
+  unfinished: 150e-6,
+  rough: 500e-6
+};
+
+export const DEFAULT_SURFACE_FINISH: SurfaceFinish = "regularPaint";
+export const DEFAULT_FIN_PROFILE: FinProfile = "rounded";
+
+export interface BodySegment {
+  name: string;
+  kind: "nose" | "body" | "transition";
+  shape?: NoseShape; // noses only
+  position: number; // m aft of the nose tip, front of the segment
+  length: number; // m
+  foreDiameter: number; // m
+  aftDiameter: number; // m
+  roughness: number; // m
+}
+
+export interface FinSetGeometry {
+  name: string;
+  count: number;
+  rootChord: number; // m
+  tipChord: number; // m
+  span: number; // m, exposed span from the body surface
+  sweepAngle: number; // leading-edge sweep, radians
+  cantAngle: number; // incidence to the body axis, radians; positive rolls the rocket positively about its axis
+  thickness: number; // m
+  bodyRadius: number; // m, body radius at the fin root
+  profile: FinProfile;
+  roughness: number; // m
+}
+
+export interface DragGeometry {
+  referenceArea: number; // m²
+  length: number; // m, body length used for the Reynolds number
+  segments: BodySegment[]; // nose to tail
+  fins: FinSetGeometry[];
+  railGuides: RailGuide[];
+  baseDiameter: number; // m
+}
+
+export interface FlowConditions {
+  airspeed: number; // m/s
+  mach: number;
+  density: number; // kg/m³
+  dynamicViscosity: number; // Pa·s
+  exhaustArea: number; // m², base area filled by burning motors
+}
+
+export interface DragBreakdown {
+  friction: number;
+  pressure: number; // nose and transitions
+  fins: number; // fin profile and fin-body interference
+  base: number;
+  railGuides: number;
+  total: number;
+}
+
+// Frontal area and drag coefficient of the standard guides
+const LAUNCH_LUG_AREA = Math.PI * 0.0065 * 0.0065 / 4; // m², 1/4" lug
+const LAUNCH_LUG_DRAG = 1.2;
+const RAIL_BUTTON_AREA = 2 * 0.011 * 0.007; // m², a pair of 1010 buttons
+const RAIL_BUTTON_DRAG = 0.8;
+
+// Fore-body pressure drag is blended from its subsonic to its supersonic value across this range
+const TRANSONIC_START = 0.8;
+const TRANSONIC_END = 1.3;
+
+// Pressure drag of curved noses relative to a cone of the same fineness. Tangent
+// profiles carry no subsonic pressure drag and shed part of the cone's wave drag.
+const NOSE_WAVE_DRAG_FACTOR: Record<NoseShape, number> = {
+  conical: 1,
+  ogive: 0.7,
+  parabolic: 0.6,
+  ellipsoid: 1.2,
+  haack: 0.5
+};
+
+export function skinFrictionCoefficient(reynolds: number, relativeRoughness: number, mach: number): number {
+  // Turbulent flat-plate friction, limited from below by the roughness of the surface
+  let cf = reynolds < 1e4 ? 1.48e-2 : 1 / Math.pow(1.5 * Math.log(reynolds) - 5.6, 2);
+  if (relativeRoughness > 0 && reynolds > 51 * Math.pow(relativeRoughness, -1.039)) {
+    cf = 0.032 * Math.pow(relativeRoughness, 0.2);
+  }
+  return mach < 1 ? cf * (1 - 0.1 * mach * mach) : cf / Math.pow(1 + 0.15 * mach * mach, 0.58);
+}
+
+export function baseDragCoefficient(mach: number): number {
+  return mach < 1 ? 0.12 + 0.13 * mach * mach : 0.25 / mach;
+}
+
+// Stagnation pressure over free-stream dynamic pressure, behind a normal shock when supersonic
+function stagnationPressureRatio(mach: number): number {
+  const m2 = mach * mach;
+  return mach < 1
+    ? 1 + m2 / 4 + m2 * m2 / 40
+    : 1.84 - 0.76 / m2 + 0.166 / (m2 * m2) + 0.035 / (m2 * m2 * m2);
+}
+
+function forebodyPressureDrag(halfAngle: number, mach: number, shape: NoseShape = "conical"): number {
+  const sin = Math.sin(halfAngle);
+  const waveFactor = NOSE_WAVE_DRAG_FACTOR[shape];
+  const subsonic = shape === "conical" ? 0.8 * sin * sin : 0;
+  const supersonic = (m: number) => waveFactor * (2.1 * sin * sin + 0.5 * sin / Math.sqrt(m * m - 1));
+
+  if (mach <= TRANSONIC_START) return subsonic;
+  if (mach >= TRANSONIC_END) return supersonic(mach);
+  // Wave drag builds up through the transonic region
+  const fraction = (mach - TRANSONIC_START) / (TRANSONIC_END - TRANSONIC_START);
+  return subsonic + (supersonic(TRANSONIC_END) - subsonic) * fraction;
+}
+
+function circleArea(diameter: number): number {
+  return Math.PI * diameter * diameter / 4;
+}
+
+function wettedArea(segment: BodySegment): number {
+  const r1 = segment.foreDiameter / 2;
+  const r2 = segment.aftDiameter / 2;
+  return Math.PI * (r1 + r2) * Math.sqrt(Math.pow(r1 - r2, 2) + segment.length * segment.length);
+}
+
+function segmentPressureDrag(segment: BodySegment, mach: number): number {
+  // Referenced to the change in frontal area across the segment
+  const change = Math.abs(segment.aftDiameter - segment.foreDiameter);
+  if (change < 1e-9) return 0;
+
+  if (segment.aftDiameter > segment.foreDiameter) {
+    // Noses and shoulders
+    return forebodyPressureDrag(Math.atan(change / 2 / Math.max(segment.length, 1e-9)), mach, segment.shape);
+  }
+
+  // Boattails recover base pressure once they are longer than three diameter changes
+  const slenderness = segment.length / change;
+  if (slenderness < 1) return baseDragCoefficient(mach);
+  if (slenderness > 3) return 0;
+  return baseDragCoefficient(mach) * (3 - slenderness) / 2;
+}
+
+function roundedLeadingEdgeDrag(mach: number): number {
+  if (mach < 0.9) return Math.pow(1 - mach * mach, -0.417) - 1;
+  if (mach < 1) return 1 - 1.785 * (mach - 0.9);
+  const m2 = mach * mach;
+  return 1.214 - 0.502 / m2 + 0.1095 / (m2 * m2);
+}
+
+function finProfileDrag(fin: FinSetGeometry, mach: number): number {
+  // Referenced to the fin's frontal area, span × thickness
+  const sweep = Math.pow(Math.cos(fin.sweepAngle), 2);
+  switch (fin.profile) {
+    case "square":
+      return 0.85 * stagnationPressureRatio(mach) * sweep + baseDragCoefficient(mach);
+    case "rounded":
+      return roundedLeadingEdgeDrag(mach) * sweep + baseDragCoefficient(mach) / 2;
+    default: {
+      // Thin airfoils only pay supersonic wave drag (Ackeret)
+      if (mach <= 1) return 0;
+      const meanChord = (fin.rootChord + fin.tipChord) / 2;
+      return 4 * (fin.thickness / Math.max(meanChord, 1e-9)) / Math.max(Math.sqrt(mach * mach - 1), 0.5) * sweep;
+    }
+  }
+}
+
+export function calculateDragCoefficient(geometry: DragGeometry, flow: FlowConditions): DragBreakdown {
+  const { referenceArea, segments, fins } = geometry;
+  if (referenceArea <= 0) {
+    return { friction: 0, pressure: 0, fins: 0, base: 0, railGuides: 0, total: 0 };
+  }
+
+  const { airspeed, mach, density, dynamicViscosity } = flow;
+  const reynoldsPerMetre = dynamicViscosity > 0 ? density * airspeed / dynamicViscosity : 0;
+  const maxDiameter = Math.max(...segments.map(s => Math.max(s.foreDiameter, s.aftDiameter)), 1e-9);
+
+  // Body skin friction, thickened by the body's form factor
+  const fineness = geometry.length / maxDiameter;
+  const bodyFriction = segments.reduce((sum, s) =>
+    sum + skinFrictionCoefficient(reynoldsPerMetre * geometry.length, s.roughness / geometry.length, mach) * wettedArea(s), 0);
+  let friction = bodyFriction * (1 + 1 / (2 * fineness)) / referenceArea;
+
+  // Fins: both faces of friction, leading/trailing edge pressure and root interference
+  let finDrag = 0;
+  fins.forEach(fin => {
+    const meanChord = (fin.rootChord + fin.tipChord) / 2;
+    if (meanChord <= 0 || fin.span <= 0) return;
+    const cf = skinFrictionCoefficient(reynoldsPerMetre * meanChord, fin.roughness / meanChord, mach);
+    const thicknessFactor = 1 + 2 * fin.thickness / meanChord;
+    const planform = meanChord * fin.span;
+    friction += cf * thicknessFactor * 2 * fin.count * planform / referenceArea;
+    finDrag += finProfileDrag(fin, mach) * fin.count * fin.span * fin.thickness / referenceArea;
+    finDrag += cf * thicknessFactor * 2 * fin.count * fin.rootChord * fin.bodyRadius / referenceArea;
+  });
+
+  const pressure = segments.reduce((sum, s) =>
+    sum + segmentPressureDrag(s, mach) *
+      Math.abs(circleArea(s.aftDiameter) - circleArea(s.foreDiameter)) / referenceArea, 0);
+
+  // Exhaust fills part of the base while the motors burn
+  const baseArea = Math.max(0, circleArea(geometry.baseDiameter) - flow.exhaustArea);
+  const base = baseDragCoefficient(mach) * baseArea / referenceArea;
+
+  const railGuides = geometry.railGuides.reduce((sum, guide) => {
+    if (guide === "launchLug") return sum + LAUNCH_LUG_DRAG * LAUNCH_LUG_AREA / referenceArea;
+    if (guide === "railButtons") return sum + RAIL_BUTTON_DRAG * RAIL_BUTTON_AREA / referenceArea;
+    return sum;
+  }, 0);
+
+  return {
+    friction,
+    pressure,
+    fins: finDrag,
+    base,
+    railGuides,
+    total: friction + pressure + finDrag + base + railGuides
+  };
+}
@@ -0,0 +1,81 @@
+// Pitch damping assessment along a simulated trajectory. Below the recommended band
+// gust responses ring on for many cycles; above it the rocket is slow to recover its heading.
+// Roll rates passing through the pitch natural frequency are flagged as resonances.
+
+import type { FlightDataPoint } from "./PhysicsEngine";
+
+export const DAMPING_RATIO_RANGE = { min: 0.05, max: 0.3 };
+
+export interface DampingExcursion {
+  start: number; // s
+  end: number; // s
+  kind: "underdamped" | "overdamped";
+  extreme: number; // worst damping ratio inside the interval
+}
+
+export interface RollResonance {
+  time: number; // s, where the roll rate crosses the pitch natural frequency
+  frequency: number; // Hz
+}
+
+export interface BoostDampingSummary {
+  minimum: number;
+  maximum: number;
+  excursions: DampingExcursion[];
+}
+
+// Powered flight off the rail with a restoring moment acting
+export function isFreeBoost(point: FlightDataPoint): boolean {
+  return point.thrust > 0 && !point.onRail && point.naturalFrequency > 0;
+}
+
+export function analyzeBoostDamping(flightData: FlightDataPoint[]): BoostDampingSummary | null {
+  const boost = flightData.filter(isFreeBoost);
+  if (boost.length === 0) return null;
+
+  const excursions: DampingExcursion[] = [];
+  boost.forEach((point, i) => {
+    const ratio = point.dampingRatio;
+    const kind = ratio < DAMPING_RATIO_RANGE.min ? "underdamped" : ratio > DAMPING_RATIO_RANGE.max ? "overdamped" : null;
+    if (!kind) return;
+
+    // Extend the current excursion while consecutive samples stay out of band the same way
+    const last = excursions[excursions.length - 1];
+    const previous = boost[i - 1];
+    if (last && last.kind === kind && previous && last.end === previous.time) {
+      last.end = point.time;
+      last.extreme = kind === "underdamped" ? Math.min(last.extreme, ratio) : Math.max(last.extreme, ratio);
+    } else {
+      excursions.push({ start: point.time, end: point.time, kind, extreme: ratio });
+    }
+  });
+
+  return {
+    minimum: Math.min(...boost.map(p => p.dampingRatio)),
+    maximum: Math.max(...boost.map(p => p.dampingRatio)),
+    excursions
+  };
+}
+
+// Crossings of the spin rate through the pitch natural frequency, off the rail on the way up
+export function findRollResonances(flightData: FlightDataPoint[]): RollResonance[] {
+  const apogee = flightData.find(p => p.event === "apogee");
+  const ascent = flightData.filter(p =>
+    !p.onRail && p.naturalFrequency > 0 && (!apogee || p.time <= apogee.time));
+  const resonances: RollResonance[] = [];
+
+  ascent.slice(1).forEach((point, i) => {
+    const previous = ascent[i];
+    const before = Math.abs(previous.rollRate) - previous.naturalFrequency;
+    const after = Math.abs(point.rollRate) - point.naturalFrequency;
+    if ((before < 0) === (after < 0)) return;
+
+    const fraction = before / (before - after);
+    resonances.push({
+      time: previous.time + (point.time - previous.time) * fraction,
+      frequency: previous.naturalFrequency + (point.naturalFrequency - previous.naturalFrequency) * fraction
+    });
+  });
+
+  return resonances;
+}
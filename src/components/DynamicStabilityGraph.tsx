@@ -0,0 +1,254 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer
+} from "recharts";
+import { Activity, AlertTriangle } from "lucide-react";
+import type { FlightDataPoint } from "./PhysicsEngine";
+import { DAMPING_RATIO_RANGE, analyzeBoostDamping, findRollResonances } from "./DynamicStability";
+
+interface DynamicStabilityGraphProps {
+  flightData: FlightDataPoint[];
+}
+
+export const DynamicStabilityGraph = ({ flightData }: DynamicStabilityGraphProps) => {
+  if (flightData.length === 0) {
+    return null;
+  }
+
+  // Ascent only; under canopy the rocket no longer weathercocks
+  const apogee = flightData.find(d => d.event === "apogee");
+  const ascent = flightData.filter(d => !apogee || d.time <= apogee.time);
+  const summary = analyzeBoostDamping(flightData);
+  const resonances = findRollResonances(flightData);
+  // Spin direction doesn't matter for resonance
+  const roll = ascent.map(d => ({ time: d.time, spin: Math.abs(d.rollRate), naturalFrequency: d.naturalFrequency }));
+  const formatTime = (time: number) => `${time.toFixed(1)}s`;
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-2">
+        <Activity className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Dynamic Stability</h3>
+        {summary && (
+          <Badge
+            variant="outline"
+            className={summary.excursions.length === 0 ? "text-rocket-success" : "text-rocket-warning"}
+          >
+            ζ {summary.minimum.toFixed(3)}–{summary.maximum.toFixed(3)}
+          </Badge>
+        )}
+      </div>
+
+      <div className="h-44">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={ascent}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={formatTime}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <YAxis
+              yAxisId="corrective"
+              tickFormatter={(value: number) => value.toFixed(1)}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <YAxis
+              yAxisId="damping"
+              orientation="right"
+              tickFormatter={(value: number) => value.toFixed(3)}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <Tooltip
+              labelFormatter={(time: number) => `T+${time.toFixed(2)}s`}
+              formatter={(value: number, name: string) => [
+                name === "C1" ? `${value.toFixed(3)} N·m/rad` : `${value.toFixed(4)} N·m·s/rad`,
+                name
+              ]}
+            />
+            <Legend />
+            <Line
+              yAxisId="corrective"
+              type="monotone"
+              dataKey="correctiveMomentCoefficient"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              dot={false}
+              name="C1"
+            />
+            <Line
+              yAxisId="damping"
+              type="monotone"
+              dataKey="aerodynamicDampingCoefficient"
+              stroke="hsl(var(--rocket-success))"
+              strokeWidth={2}
+              dot={false}
+              name="C2A"
+            />
+            <Line
+              yAxisId="damping"
+              type="monotone"
+              dataKey="propulsiveDampingCoefficient"
+              stroke="hsl(var(--rocket-thrust))"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              dot={false}
+              name="C2R"
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="h-44 mt-3">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={ascent}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={formatTime}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <YAxis
+              yAxisId="ratio"
+              domain={[0, "auto"]}
+              tickFormatter={(value: number) => value.toFixed(2)}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <YAxis
+              yAxisId="frequency"
+              orientation="right"
+              tickFormatter={(value: number) => `${value.toFixed(1)}Hz`}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <Tooltip
+              labelFormatter={(time: number) => `T+${time.toFixed(2)}s`}
+              formatter={(value: number, name: string) => [
+                name === "Natural frequency" ? `${value.toFixed(2)} Hz` : value.toFixed(3),
+                name
+              ]}
+            />
+            <Legend />
+            <ReferenceArea
+              yAxisId="ratio"
+              y1={DAMPING_RATIO_RANGE.min}
+              y2={DAMPING_RATIO_RANGE.max}
+              fill="hsl(var(--rocket-success) / 0.1)"
+              stroke="none"
+            />
+            <Line
+              yAxisId="ratio"
+              type="monotone"
+              dataKey="dampingRatio"
+              stroke="hsl(var(--accent))"
+              strokeWidth={2}
+              dot={false}
+              name="Damping ratio"
+            />
+            <Line
+              yAxisId="frequency"
+              type="monotone"
+              dataKey="naturalFrequency"
+              stroke="hsl(var(--rocket-warning))"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              dot={false}
+              name="Natural frequency"
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="h-44 mt-3">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={roll}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={formatTime}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <YAxis
+              domain={[0, "auto"]}
+              tickFormatter={(value: number) => `${value.toFixed(1)}Hz`}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <Tooltip
+              labelFormatter={(time: number) => `T+${time.toFixed(2)}s`}
+              formatter={(value: number, name: string) => [`${value.toFixed(2)} Hz`, name]}
+            />
+            <Legend />
+            {resonances.map(resonance => (
+              <ReferenceLine
+                key={resonance.time}
+                x={resonance.time}
+                stroke="hsl(var(--destructive))"
+                strokeDasharray="2 2"
+              />
+            ))}
+            <Line
+              type="monotone"
+              dataKey="spin"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              dot={false}
+              name="Roll rate"
+            />
+            <Line
+              type="monotone"
+              dataKey="naturalFrequency"
+              stroke="hsl(var(--rocket-warning))"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              dot={false}
+              name="Pitch frequency"
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {resonances.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {resonances.map(resonance => (
+            <div key={resonance.time} className="text-xs text-destructive flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              Roll-pitch resonance at {formatTime(resonance.time)}: roll rate crosses the pitch frequency of {resonance.frequency.toFixed(2)} Hz
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary && summary.excursions.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {summary.excursions.map(excursion => (
+            <div key={excursion.start} className="text-xs text-rocket-warning flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {excursion.kind === "underdamped" ? "Underdamped" : "Overdamped"} during boost
+              {` from ${formatTime(excursion.start)} to ${formatTime(excursion.end)} (ζ ${excursion.extreme.toFixed(3)})`}
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground mt-2">
+        Shaded band is the recommended boost damping ratio of {DAMPING_RATIO_RANGE.min}–{DAMPING_RATIO_RANGE.max}.
+        C1 restores the rocket to the wind; C2A and C2R damp the oscillation aerodynamically and through the exhaust.
+        Roll rates near the pitch frequency can lock in and amplify coning.
+      </p>
+    </Card>
+  );
+};
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   LineChart, 
@@ -12,10 +13,11 @@ import {
   Tooltip, 
   Legend, 
   ResponsiveContainer,
-  AreaChart,
   Area,
   ComposedChart,
-  Bar
+  Bar,
+  ReferenceLine,
+  ReferenceDot
 } from "recharts";
 import { 
   BarChart3, 
@@ -25,19 +27,50 @@ import {
   Target,
   Download,
   ZoomIn,
-  Grid3X3
+  Grid3X3,
+  AlertTriangle,
+  MapPin,
+  Scale
 } from "lucide-react";
-import type { FlightDataPoint } from "./PhysicsEngine";
+import {
+  FLIGHT_EVENT_LABELS,
+  type FlightDataPoint,
+  type FlightEvent,
+  type FlightTrajectory,
+  type MotorImpulseMismatch
+} from "./PhysicsEngine";
+import { formatCoordinate, mapLink } from "./Geodesy";
+
+// Recommended dual-deploy limits, m/s
+const DROGUE_DESCENT_RATE_RANGE = [15, 30];
+const MAX_MAIN_DEPLOYMENT_SPEED = 30;
+const MIN_STABILITY_MARGIN = 1; // calibers
+const MAX_MARGIN_ANGLE_OF_ATTACK = 15; // degrees, beyond this the rocket isn't flying nose first
 
 interface FlightDataGraphProps {
   flightData: FlightDataPoint[];
+  flightEvents?: FlightEvent[];
+  separatedTrajectories?: FlightTrajectory[]; // spent boosters, drawn alongside the main trajectory
+  impulseMismatches?: MotorImpulseMismatch[]; // motors flown on a curve off their rated impulse
   isSimulating: boolean;
 }
 
-export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphProps) => {
+const NO_IMPULSE_MISMATCHES: MotorImpulseMismatch[] = [];
+
+const describeEvent = (event: FlightEvent) =>
+  event.source ? `${FLIGHT_EVENT_LABELS[event.type]} (${event.source})` : FLIGHT_EVENT_LABELS[event.type];
+
+export const FlightDataGraph = ({
+  flightData,
+  flightEvents = [],
+  separatedTrajectories = [],
+  impulseMismatches = NO_IMPULSE_MISMATCHES,
+  isSimulating
+}: FlightDataGraphProps) => {
   const [activeGraph, setActiveGraph] = useState("altitude");
   const [showGrid, setShowGrid] = useState(true);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [minRailExitVelocity, setMinRailExitVelocity] = useState(15); // m/s
 
   const formatTime = (time: number) => `${time.toFixed(1)}s`;
   const formatAltitude = (alt: number) => `${alt.toFixed(0)}m`;
@@ -51,9 +84,82 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
   const maxVelocity = Math.max(...flightData.map(d => Math.abs(d.velocity)));
   const maxAcceleration = Math.max(...flightData.map(d => Math.abs(d.acceleration)));
   const maxMach = Math.max(...flightData.map(d => d.mach));
-  const burnoutTime = flightData.find(d => d.thrust === 0 && d.time > 0.1)?.time || 0;
-  const apogeeTime = flightData.find(d => d.altitude === maxAltitude)?.time || 0;
-  const flightTime = flightData[flightData.length - 1]?.time || 0;
+  const findEvent = (type: FlightEvent['type']) => flightEvents.find(e => e.type === type);
+  const burnout = flightEvents.filter(e => e.type === 'burnout').pop();
+  const apogeeTime = findEvent('apogee')?.time ?? null;
+  const landing = findEvent('landing')?.state;
+  const flightTime = (findEvent('simulationEnd') ?? flightEvents[flightEvents.length - 1])?.time ?? 0;
+  const ejection = findEvent('ejection');
+  const deploymentTime = findEvent('deployment')?.time ?? null;
+  // Steady rate just before the main opens (or touchdown), and the touchdown rate under the main
+  const lastUnderDrogue = [...flightData].reverse().find(d => d.recoveryConfiguration === 'drogue');
+  const mainDeployment = flightData.find(d => d.recoveryConfiguration === 'main');
+  const drogueDescentRate = lastUnderDrogue?.descentRate ?? null;
+  const mainDescentRate = landing?.recoveryConfiguration === 'main' ? landing.descentRate : null;
+  const drogueRateOutOfBounds = drogueDescentRate !== null &&
+    (drogueDescentRate < DROGUE_DESCENT_RATE_RANGE[0] || drogueDescentRate > DROGUE_DESCENT_RATE_RANGE[1]);
+  const mainDeployedTooFast = mainDeployment !== undefined && mainDeployment.velocity > MAX_MAIN_DEPLOYMENT_SPEED;
+  const separations = flightEvents.filter(e => e.type === 'separation');
+  const railExit = findEvent('railExit')?.state;
+  const railExitTooSlow = railExit !== undefined && railExit.velocity < minRailExitVelocity;
+
+  // Margin only means something in free flight, nose first, on the way up
+  const marginData = (data: FlightDataPoint[], events: FlightEvent[]) => {
+    const apogeeEvent = events.find(e => e.type === 'apogee');
+    return data
+      .filter(d => !d.onRail && d.recoveryConfiguration === null && d.angleOfAttack <= MAX_MARGIN_ANGLE_OF_ATTACK &&
+        (!apogeeEvent || d.time <= apogeeEvent.time))
+      .map(d => ({
+        time: d.time,
+        stability: d.stability,
+        centerOfGravity: d.centerOfGravity * 100,
+        centerOfPressure: d.centerOfPressure * 100
+      }));
+  };
+  const stabilityData = marginData(flightData, flightEvents);
+  const minimumMargin = stabilityData.reduce<(typeof stabilityData)[number] | null>(
+    (lowest, d) => !lowest || d.stability < lowest.stability ? d : lowest, null);
+
+  // Events sharing a time are drawn as one labelled marker
+  const eventMarkers = flightEvents
+    .filter(e => e.type !== 'simulationEnd')
+    .reduce<Array<{ time: number; label: string }>>((markers, event) => {
+      const last = markers[markers.length - 1];
+      if (last && Math.abs(last.time - event.time) < 1e-6) {
+        last.label = `${last.label}, ${FLIGHT_EVENT_LABELS[event.type]}`;
+      } else {
+        markers.push({ time: event.time, label: FLIGHT_EVENT_LABELS[event.type] });
+      }
+      return markers;
+    }, []);
+  const renderEventMarkers = (yAxisId?: string) => eventMarkers.map(marker => (
+    <ReferenceLine
+      key={marker.time}
+      x={marker.time}
+      yAxisId={yAxisId}
+      stroke="hsl(var(--muted-foreground) / 0.6)"
+      strokeDasharray="2 4"
+      label={{ value: marker.label, angle: -90, position: 'insideTopLeft', fontSize: 9, fill: 'hsl(var(--muted-foreground))' }}
+    />
+  ));
+
+  // Spent boosters share the time axis, dashed and muted beside the main trajectory
+  const renderSeparatedLines = (dataKey: string, label: string, unit: string, yAxisId?: string) =>
+    separatedTrajectories.map(trajectory => (
+      <Line
+        key={trajectory.name}
+        data={dataKey === 'stability' ? marginData(trajectory.data, trajectory.events) : trajectory.data}
+        yAxisId={yAxisId}
+        type="monotone"
+        dataKey={dataKey}
+        stroke="hsl(var(--muted-foreground))"
+        strokeWidth={2}
+        strokeDasharray="4 4"
+        dot={false}
+        name={`${trajectory.name} ${label}`}
+        unit={unit}
+      />
+    ));
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -77,10 +183,15 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
       return;
     }
 
+    // Every event lands on an output point; simultaneous events share its Events cell
+    const eventsAt = (time: number) => flightEvents
+      .filter(e => Math.abs(e.time - time) < 1e-6)
+      .map(describeEvent)
+      .join('; ');
     const csvContent = [
-      "Time(s),Altitude(m),Velocity(m/s),Acceleration(m/s²),Thrust(N),Drag(N),Mach,Mass(kg)",
+      "Time(s),Altitude(m),Velocity(m/s),Acceleration(m/s²),Thrust(N),Drag(N),Mach,Mass(kg),Roll Rate(Hz),Stability(cal),CG(m),CP(m),Latitude(°),Longitude(°),Events",
       ...flightData.map(d => 
-        `${d.time.toFixed(3)},${d.altitude.toFixed(2)},${d.velocity.toFixed(2)},${d.acceleration.toFixed(2)},${d.thrust.toFixed(2)},${d.drag.toFixed(2)},${d.mach.toFixed(3)},${d.mass.toFixed(4)}`
+        `${d.time.toFixed(3)},${d.altitude.toFixed(2)},${d.velocity.toFixed(2)},${d.acceleration.toFixed(2)},${d.thrust.toFixed(2)},${d.drag.toFixed(2)},${d.mach.toFixed(3)},${d.mass.toFixed(4)},${d.rollRate.toFixed(3)},${d.stability.toFixed(3)},${d.centerOfGravity.toFixed(4)},${d.centerOfPressure.toFixed(4)},${d.latitude.toFixed(7)},${d.longitude.toFixed(7)},"${eventsAt(d.time)}"`
       )
     ].join('\n');
 
@@ -166,7 +277,7 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
       {/* Graph Content */}
       <div className="flex-1 p-4">
         <Tabs value={activeGraph} onValueChange={setActiveGraph} className="h-full flex flex-col">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="altitude" className="flex items-center gap-1">
               <TrendingUp className="h-3 w-3" />
               Altitude
@@ -183,15 +294,21 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
               <Target className="h-3 w-3" />
               Performance
             </TabsTrigger>
+            <TabsTrigger value="stability" className="flex items-center gap-1">
+              <Scale className="h-3 w-3" />
+              Stability
+            </TabsTrigger>
           </TabsList>
 
           <div className="flex-1 mt-4">
             <TabsContent value="altitude" className="h-full">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={flightData}>
+                <ComposedChart data={flightData}>
                   {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />}
                   <XAxis 
                     dataKey="time" 
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
                     tickFormatter={formatTime}
                     stroke="hsl(var(--muted-foreground))"
                   />
@@ -201,6 +318,7 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                   />
                   <Tooltip content={<CustomTooltip />} />
                   <Legend />
+                  {renderEventMarkers()}
                   <Area
                     type="monotone"
                     dataKey="altitude"
@@ -210,7 +328,8 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                     name="Altitude"
                     unit=" m"
                   />
-                </AreaChart>
+                  {renderSeparatedLines("altitude", "Altitude", " m")}
+                </ComposedChart>
               </ResponsiveContainer>
             </TabsContent>
 
@@ -220,6 +339,8 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                   {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />}
                   <XAxis 
                     dataKey="time" 
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
                     tickFormatter={formatTime}
                     stroke="hsl(var(--muted-foreground))"
                   />
@@ -236,6 +357,7 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                   />
                   <Tooltip content={<CustomTooltip />} />
                   <Legend />
+                  {renderEventMarkers("velocity")}
                   <Line
                     yAxisId="velocity"
                     type="monotone"
@@ -246,6 +368,7 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                     name="Velocity"
                     unit=" m/s"
                   />
+                  {renderSeparatedLines("velocity", "Velocity", " m/s", "velocity")}
                   <Line
                     yAxisId="mach"
                     type="monotone"
@@ -266,6 +389,8 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                   {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />}
                   <XAxis 
                     dataKey="time" 
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
                     tickFormatter={formatTime}
                     stroke="hsl(var(--muted-foreground))"
                   />
@@ -275,6 +400,7 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                   />
                   <Tooltip content={<CustomTooltip />} />
                   <Legend />
+                  {renderEventMarkers()}
                   <Bar
                     dataKey="thrust"
                     fill="hsl(var(--rocket-thrust) / 0.7)"
@@ -290,6 +416,8 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                     name="Drag"
                     unit=" N"
                   />
+                  {/* A booster separates after its burn, so only its drag is worth drawing */}
+                  {renderSeparatedLines("drag", "Drag", " N")}
                 </ComposedChart>
               </ResponsiveContainer>
             </TabsContent>
@@ -300,6 +428,8 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                   {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />}
                   <XAxis 
                     dataKey="time" 
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
                     tickFormatter={formatTime}
                     stroke="hsl(var(--muted-foreground))"
                   />
@@ -315,6 +445,7 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                   />
                   <Tooltip content={<CustomTooltip />} />
                   <Legend />
+                  {renderEventMarkers("accel")}
                   <Area
                     yAxisId="accel"
                     type="monotone"
@@ -325,6 +456,7 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                     name="Acceleration"
                     unit=" m/s²"
                   />
+                  {renderSeparatedLines("acceleration", "Acceleration", " m/s²", "accel")}
                   <Line
                     yAxisId="mass"
                     type="monotone"
@@ -336,6 +468,86 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
                     unit=" kg"
                     strokeDasharray="3 3"
                   />
+                  {renderSeparatedLines("mass", "Mass", " kg", "mass")}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </TabsContent>
+
+            <TabsContent value="stability" className="h-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={stabilityData}>
+                  {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />}
+                  <XAxis 
+                    dataKey="time" 
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={formatTime}
+                    stroke="hsl(var(--muted-foreground))"
+                  />
+                  <YAxis 
+                    yAxisId="margin"
+                    tickFormatter={(value: number) => `${value.toFixed(1)} cal`}
+                    stroke="hsl(var(--muted-foreground))"
+                  />
+                  <YAxis 
+                    yAxisId="position"
+                    orientation="right"
+                    domain={['auto', 'auto']}
+                    tickFormatter={(value: number) => `${value.toFixed(0)}cm`}
+                    stroke="hsl(var(--muted-foreground))"
+                  />
+                  <Tooltip content={<CustomTooltip />} />
+                  <Legend />
+                  {renderEventMarkers("margin")}
+                  <ReferenceLine
+                    yAxisId="margin"
+                    y={MIN_STABILITY_MARGIN}
+                    stroke="hsl(var(--destructive) / 0.6)"
+                    strokeDasharray="4 4"
+                  />
+                  {minimumMargin && (
+                    <ReferenceDot
+                      yAxisId="margin"
+                      x={minimumMargin.time}
+                      y={minimumMargin.stability}
+                      r={4}
+                      fill="hsl(var(--destructive))"
+                      stroke="none"
+                    />
+                  )}
+                  <Line
+                    yAxisId="margin"
+                    type="monotone"
+                    dataKey="stability"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    dot={false}
+                    name="Stability Margin"
+                    unit=" cal"
+                  />
+                  {renderSeparatedLines("stability", "Stability Margin", " cal", "margin")}
+                  <Line
+                    yAxisId="position"
+                    type="monotone"
+                    dataKey="centerOfGravity"
+                    stroke="hsl(var(--rocket-warning))"
+                    strokeWidth={2}
+                    dot={false}
+                    name="CG"
+                    unit=" cm"
+                    strokeDasharray="3 3"
+                  />
+                  <Line
+                    yAxisId="position"
+                    type="monotone"
+                    dataKey="centerOfPressure"
+                    stroke="hsl(var(--rocket-success))"
+                    strokeWidth={2}
+                    dot={false}
+                    name="CP"
+                    unit=" cm"
+                    strokeDasharray="3 3"
+                  />
                 </ComposedChart>
               </ResponsiveContainer>
             </TabsContent>
@@ -349,17 +561,146 @@ export const FlightDataGraph = ({ flightData, isSimulating }: FlightDataGraphPro
         <div className="grid grid-cols-3 gap-2 text-xs">
           <div>
             <span className="text-muted-foreground">Burnout:</span>
-            <span className="ml-1 font-medium">{formatTime(burnoutTime)}</span>
+            <span className="ml-1 font-medium">{burnout ? formatTime(burnout.time) : '—'}</span>
           </div>
           <div>
             <span className="text-muted-foreground">Apogee:</span>
-            <span className="ml-1 font-medium">{formatTime(apogeeTime)}</span>
+            <span className="ml-1 font-medium">{apogeeTime !== null ? formatTime(apogeeTime) : '—'}</span>
           </div>
           <div>
             <span className="text-muted-foreground">Landing:</span>
-            <span className="ml-1 font-medium">{formatTime(flightTime)}</span>
+            {/* A run cut short at its stop event never lands */}
+            <span className="ml-1 font-medium">{landing ? formatTime(landing.time) : '—'}</span>
+          </div>
+          {separations.map(separation => (
+            <div key={separation.time}>
+              <span className="text-muted-foreground">Separation ({separation.source}):</span>
+              <span className="ml-1 font-medium">{formatTime(separation.time)}</span>
+            </div>
+          ))}
+          <div>
+            <span className="text-muted-foreground">Ejection:</span>
+            <span className="ml-1 font-medium">{ejection ? formatTime(ejection.time) : '—'}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Deployment:</span>
+            <span className="ml-1 font-medium">{deploymentTime !== null ? formatTime(deploymentTime) : '—'}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Descent Rate:</span>
+            <span className="ml-1 font-medium">{landing ? formatVelocity(landing.descentRate) : '—'}</span>
+          </div>
+          {drogueDescentRate !== null && (
+            <div>
+              <span className="text-muted-foreground">Under Drogue:</span>
+              <span className={`ml-1 font-medium ${drogueRateOutOfBounds ? 'text-rocket-warning' : ''}`}>
+                {formatVelocity(drogueDescentRate)}
+              </span>
+            </div>
+          )}
+          {mainDescentRate !== null && (
+            <div>
+              <span className="text-muted-foreground">Under Main:</span>
+              <span className="ml-1 font-medium">{formatVelocity(mainDescentRate)}</span>
+            </div>
+          )}
+          <div>
+            <span className="text-muted-foreground">Drift:</span>
+            <span className="ml-1 font-medium">{landing ? formatAltitude(landing.drift) : '—'}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Min Margin:</span>
+            <span className={`ml-1 font-medium ${minimumMargin && minimumMargin.stability < MIN_STABILITY_MARGIN ? 'text-destructive' : ''}`}>
+              {minimumMargin ? `${minimumMargin.stability.toFixed(2)} cal at ${formatTime(minimumMargin.time)}` : '—'}
+            </span>
           </div>
         </div>
+        {landing && (
+          <div className="mt-2 flex items-center gap-1 text-xs">
+            <MapPin className="h-3 w-3 text-primary" />
+            <span className="text-muted-foreground">Landing site:</span>
+            <a
+              href={mapLink(landing.latitude, landing.longitude)}
+              target="_blank"
+              rel="noreferrer"
+              className="font-medium underline underline-offset-2"
+            >
+              {formatCoordinate(landing.latitude, landing.longitude)}
+            </a>
+          </div>
+        )}
+        {flightEvents.length > 0 && (
+          <div className="mt-3 max-h-32 overflow-y-auto space-y-0.5 text-xs">
+            {flightEvents.map((event, index) => (
+              <div key={index} className="flex items-center justify-between gap-2">
+                <span className="font-medium">{describeEvent(event)}</span>
+                <span className="text-muted-foreground">
+                  T+{event.time.toFixed(2)}s · {formatAltitude(event.state.altitude)} · {formatVelocity(event.state.velocity)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        {railExit && (
+          <div className="mt-3 flex items-center justify-between gap-2 text-xs">
+            <div>
+              <span className="text-muted-foreground">Rail Exit:</span>
+              <span className="ml-1 font-medium">{formatTime(railExit.time)}</span>
+              <span className={`ml-2 font-medium ${railExitTooSlow ? 'text-destructive' : 'text-rocket-success'}`}>
+                {formatVelocity(railExit.velocity)}
+              </span>
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="text-muted-foreground">Min</span>
+              <Input
+                type="number"
+                value={minRailExitVelocity}
+                onChange={(e) => setMinRailExitVelocity(parseFloat(e.target.value) || 0)}
+                min="0"
+                step="1"
+                className="h-6 w-16 text-xs"
+              />
+              <span className="text-muted-foreground">m/s</span>
+            </div>
+          </div>
+        )}
+        {separatedTrajectories.map(trajectory => {
+          const boosterLanding = trajectory.events.find(e => e.type === 'landing')?.state;
+          return (
+            <div key={trajectory.name} className="mt-2 text-xs">
+              <span className="text-muted-foreground">{trajectory.name}:</span>
+              <span className="ml-1 font-medium">
+                apogee {formatAltitude(Math.max(...trajectory.data.map(d => d.altitude)))}
+                {boosterLanding && `, lands ${formatTime(boosterLanding.time)} at ${formatVelocity(boosterLanding.descentRate)}, ${formatAltitude(boosterLanding.drift)} from pad at ${formatCoordinate(boosterLanding.latitude, boosterLanding.longitude)}`}
+              </span>
+            </div>
+          );
+        })}
+        {drogueRateOutOfBounds && drogueDescentRate !== null && (
+          <div className="mt-2 flex items-center gap-1 text-xs text-rocket-warning">
+            <AlertTriangle className="h-3 w-3" />
+            Drogue descent rate of {formatVelocity(drogueDescentRate)} is outside the recommended {DROGUE_DESCENT_RATE_RANGE[0]}-{DROGUE_DESCENT_RATE_RANGE[1]} m/s
+          </div>
+        )}
+        {mainDeployedTooFast && mainDeployment && (
+          <div className="mt-2 flex items-center gap-1 text-xs text-destructive">
+            <AlertTriangle className="h-3 w-3" />
+            Main deploys at {formatVelocity(mainDeployment.velocity)}, above the {MAX_MAIN_DEPLOYMENT_SPEED} m/s limit - add or enlarge the drogue
+          </div>
+        )}
+        {railExitTooSlow && (
+          <div className="mt-2 flex items-center gap-1 text-xs text-destructive">
+            <AlertTriangle className="h-3 w-3" />
+            Rail exit velocity is below the {minRailExitVelocity} m/s minimum - use a longer rail or a higher-thrust motor
+          </div>
+        )}
+        {impulseMismatches.map(mismatch => (
+          <div key={mismatch.designation} className="mt-2 flex items-center gap-1 text-xs text-rocket-warning">
+            <AlertTriangle className="h-3 w-3" />
+            {mismatch.designation} thrust curve integrates to {mismatch.curveImpulse.toFixed(1)} N⋅s,
+            {" "}{(mismatch.deviation * 100).toFixed(1)}% off its rated {mismatch.ratedImpulse} N⋅s
+          </div>
+        ))}
       </div>
     </Card>
   );
@@ -0,0 +1,100 @@
+// WGS84 ellipsoid: normal gravity, Earth's rotation in the local flight frame, and
+// conversion of flight-frame positions (x = north, y = up, z = east of the pad) to
+// latitude and longitude.
+
+import type { LaunchConditions } from "./PhysicsEngine";
+import { add, scale, vec, type Vector3 } from "./VectorMath";
+
+export interface GeodeticPosition {
+  latitude: number; // degrees, positive north
+  longitude: number; // degrees, positive east
+  height: number; // m above the ellipsoid
+}
+
+const SEMI_MAJOR_AXIS = 6378137; // m
+const FLATTENING = 1 / 298.257223563;
+const ECCENTRICITY_SQUARED = FLATTENING * (2 - FLATTENING);
+const EARTH_ROTATION_RATE = 7.292115e-5; // rad/s
+
+// Somigliana's closed form of normal gravity on the ellipsoid surface
+const EQUATORIAL_GRAVITY = 9.7803253359; // m/s²
+const SOMIGLIANA_CONSTANT = 0.00193185265241;
+const GRAVITY_RATIO = 0.00344978600308; // ω²a²b/GM
+
+const DEG = Math.PI / 180;
+
+// The site elevation stands in for the height above the ellipsoid; the geoid separation
+// is small next to the other uncertainties in a flight
+export function launchSite(launchConditions: LaunchConditions): GeodeticPosition {
+  return {
+    latitude: launchConditions.latitude,
+    longitude: launchConditions.longitude,
+    height: launchConditions.altitude
+  };
+}
+
+// Includes the centrifugal part of Earth's rotation, so only Coriolis is left to add
+export function normalGravity(latitude: number, height: number): number {
+  const sin2 = Math.pow(Math.sin(latitude * DEG), 2);
+  const surface = EQUATORIAL_GRAVITY * (1 + SOMIGLIANA_CONSTANT * sin2) / Math.sqrt(1 - ECCENTRICITY_SQUARED * sin2);
+  // Second-order free-air correction
+  return surface * (1 -
+    2 / SEMI_MAJOR_AXIS * (1 + FLATTENING + GRAVITY_RATIO - 2 * FLATTENING * sin2) * height +
+    3 * height * height / (SEMI_MAJOR_AXIS * SEMI_MAJOR_AXIS));
+}
+
+// Earth's angular velocity in the local north/up/east frame, rad/s
+export function earthRotation(latitude: number): Vector3 {
+  return vec(EARTH_ROTATION_RATE * Math.cos(latitude * DEG), EARTH_ROTATION_RATE * Math.sin(latitude * DEG), 0);
+}
+
+function primeVerticalRadius(latitude: number): number {
+  return SEMI_MAJOR_AXIS / Math.sqrt(1 - ECCENTRICITY_SQUARED * Math.pow(Math.sin(latitude), 2));
+}
+
+function toEarthCentered({ latitude, longitude, height }: GeodeticPosition): Vector3 {
+  const phi = latitude * DEG;
+  const lambda = longitude * DEG;
+  const n = primeVerticalRadius(phi);
+  return vec(
+    (n + height) * Math.cos(phi) * Math.cos(lambda),
+    (n + height) * Math.cos(phi) * Math.sin(lambda),
+    (n * (1 - ECCENTRICITY_SQUARED) + height) * Math.sin(phi)
+  );
+}
+
+function fromEarthCentered(ecef: Vector3): GeodeticPosition {
+  const p = Math.sqrt(ecef.x * ecef.x + ecef.y * ecef.y);
+  let phi = Math.atan2(ecef.z, p * (1 - ECCENTRICITY_SQUARED));
+  let height = 0;
+  // Converges to well under a millimetre in a few passes
+  for (let i = 0; i < 4; i++) {
+    const n = primeVerticalRadius(phi);
+    height = Math.abs(Math.cos(phi)) > 1e-9 ? p / Math.cos(phi) - n : Math.abs(ecef.z) - n * (1 - ECCENTRICITY_SQUARED);
+    phi = Math.atan2(ecef.z, p * (1 - ECCENTRICITY_SQUARED * n / (n + height)));
+  }
+  return { latitude: phi / DEG, longitude: Math.atan2(ecef.y, ecef.x) / DEG, height };
+}
+
+export function localToGeodetic(origin: GeodeticPosition, position: Vector3): GeodeticPosition {
+  const phi = origin.latitude * DEG;
+  const lambda = origin.longitude * DEG;
+  const north = vec(-Math.sin(phi) * Math.cos(lambda), -Math.sin(phi) * Math.sin(lambda), Math.cos(phi));
+  const up = vec(Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi));
+  const east = vec(-Math.sin(lambda), Math.cos(lambda), 0);
+  const offset = add(add(scale(north, position.x), scale(up, position.y)), scale(east, position.z));
+  return fromEarthCentered(add(toEarthCentered(origin), offset));
+}
+
+export function formatCoordinate(latitude: number, longitude: number): string {
+  // Rounded first so a hair south of the equator doesn't read 0.000000° S
+  const hemisphere = (value: number, positive: string, negative: string) => {
+    const rounded = Number(value.toFixed(6));
+    return `${Math.abs(rounded).toFixed(6)}° ${rounded < 0 ? negative : positive}`;
+  };
+  return `${hemisphere(latitude, "N", "S")}, ${hemisphere(longitude, "E", "W")}`;
+}
+
+export function mapLink(latitude: number, longitude: number): string {
+  return `https://www.openstreetmap.org/?mlat=${latitude.toFixed(6)}&mlon=${longitude.toFixed(6)}#map=16/${latitude.toFixed(6)}/${longitude.toFixed(6)}`;
+}
@@ -0,0 +1,62 @@
+// Numerical integrators for the flight simulation.
+// State is a flat vector; the derivative function returns dy/dt for a given time and state.
+
+export type IntegratorType = "euler" | "rk4" | "rk45";
+
+export type DerivativeFunction = (time: number, state: number[]) => number[];
+
+export interface AdaptiveStepResult {
+  state: number[];
+  error: number[];
+}
+
+function combine(state: number[], terms: Array<[number, number[]]>): number[] {
+  return state.map((value, i) => terms.reduce((sum, [weight, k]) => sum + weight * k[i], value));
+}
+
+export function eulerStep(f: DerivativeFunction, time: number, state: number[], h: number): number[] {
+  return combine(state, [[h, f(time, state)]]);
+}
+
+export function rk4Step(f: DerivativeFunction, time: number, state: number[], h: number): number[] {
+  const k1 = f(time, state);
+  const k2 = f(time + h / 2, combine(state, [[h / 2, k1]]));
+  const k3 = f(time + h / 2, combine(state, [[h / 2, k2]]));
+  const k4 = f(time + h, combine(state, [[h, k3]]));
+  return combine(state, [[h / 6, k1], [h / 3, k2], [h / 3, k3], [h / 6, k4]]);
+}
+
+// Dormand–Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+export function dormandPrinceStep(f: DerivativeFunction, time: number, state: number[], h: number): AdaptiveStepResult {
+  const k: number[][] = [];
+  for (let stage = 0; stage < 7; stage++) {
+    const stageState = combine(state, DP_A[stage].map((a, j) => [h * a, k[j]] as [number, number[]]));
+    k.push(f(time + DP_C[stage] * h, stageState));
+  }
+
+  const next = combine(state, DP_B5.map((b, j) => [h * b, k[j]] as [number, number[]]));
+  const error = state.map((_, i) => h * DP_B5.reduce((sum, b, j) => sum + (b - DP_B4[j]) * k[j][i], 0));
+  return { state: next, error };
+}
+
+// Scaled RMS error of an embedded step; values <= 1 mean the step meets the tolerance
+export function errorNorm(error: number[], previous: number[], next: number[], tolerance: number): number {
+  const sum = error.reduce((acc, e, i) => {
+    const scaleFactor = tolerance + tolerance * Math.max(Math.abs(previous[i]), Math.abs(next[i]));
+    return acc + Math.pow(e / scaleFactor, 2);
+  }, 0);
+  return Math.sqrt(sum / error.length);
+}
@@ -0,0 +1,111 @@
+// Touchdown speed and kinetic energy of every recovered section, under recovery and in
+// the ballistic case where nothing deploys, checked against the safety code's limits.
+// Sections tethered together share their trajectory's touchdown speed.
+
+import type { RocketComponent } from "./RocketDesigner";
+import type { FlightTrajectory, RocketPhysics, StagePhysics } from "./PhysicsEngine";
+
+export interface LandingSafetyLimits {
+  energyLimit: number; // J per section under recovery
+  descentRateLimit: number; // m/s at touchdown under recovery
+}
+
+// 75 ft·lbf per section and 20 ft/s under the main
+export const DEFAULT_LANDING_SAFETY_LIMITS: LandingSafetyLimits = {
+  energyLimit: 101.7,
+  descentRateLimit: 6.1
+};
+
+export interface SectionLanding {
+  trajectory: string; // flight the section comes down on
+  section: string;
+  mass: number; // kg
+  touchdownVelocity: number; // m/s, under recovery
+  descentRate: number; // m/s, vertical part of the touchdown velocity
+  kineticEnergy: number; // J, under recovery
+  ballisticVelocity: number; // m/s, if recovery fails
+  ballisticEnergy: number; // J, if recovery fails
+  passes: boolean; // within both limits under recovery
+}
+
+const NOSE_SECTION = "Nose";
+
+// The flight with every recovery device removed, as if none of them opened
+export function stripRecovery(stages: StagePhysics[]): StagePhysics[] {
+  const strip = (rocket: RocketPhysics): RocketPhysics => ({ ...rocket, recoveryDevices: [] });
+  return stages.map(stage => ({ ...stage, stack: strip(stage.stack), body: strip(stage.body) }));
+}
+
+export function sectionName(component: RocketComponent, trajectory: string): string {
+  return component.recoverySection?.trim() || (component.type === "nosecone" ? NOSE_SECTION : trajectory);
+}
+
+function kineticEnergy(mass: number, velocity: number): number {
+  return 0.5 * mass * velocity * velocity;
+}
+
+// The first trajectory is the upper stage carrying everything above its lowest stage
+// still attached; the rest are spent boosters flying alone
+function trajectoryComponents(
+  components: RocketComponent[],
+  stages: StagePhysics[],
+  trajectory: FlightTrajectory,
+  isPrimary: boolean
+): RocketComponent[] {
+  const stage = Math.max(0, stages.findIndex(s => s.configuration.name === trajectory.name));
+  return components.filter(c => isPrimary ? (c.stage ?? 0) <= stage : (c.stage ?? 0) === stage);
+}
+
+export function analyzeLandingSafety(
+  components: RocketComponent[],
+  stages: StagePhysics[],
+  trajectories: FlightTrajectory[],
+  ballisticTrajectories: FlightTrajectory[],
+  limits: LandingSafetyLimits
+): SectionLanding[] {
+  return trajectories.flatMap((trajectory, i) => {
+    const landing = trajectory.events.find(e => e.type === "landing")?.state;
+    if (!landing) return [];
+    const ballistic = ballisticTrajectories.find(t => t.name === trajectory.name)?.events
+      .find(e => e.type === "landing")?.state;
+
+    const parts = trajectoryComponents(components, stages, trajectory, i === 0);
+    const sections = new Map<string, number>();
+    const addMass = (section: string, mass: number) => sections.set(section, (sections.get(section) ?? 0) + mass);
+    parts.forEach(c => addMass(sectionName(c, trajectory.name), c.mass));
+
+    // Spent motor casings and anything else not drawn as a part ride in the motor's section
+    const drawnMass = parts.reduce((sum, c) => sum + c.mass, 0);
+    const engine = parts.find(c => c.type === "engine");
+    addMass(engine ? sectionName(engine, trajectory.name) : trajectory.name, Math.max(0, landing.mass - drawnMass));
+
+    return [...sections.entries()]
+      .filter(([, mass]) => mass > 0)
+      .map(([section, mass]) => {
+        const energy = kineticEnergy(mass, landing.velocity);
+        return {
+          trajectory: trajectory.name,
+          section,
+          mass,
+          touchdownVelocity: landing.velocity,
+          descentRate: landing.descentRate,
+          kineticEnergy: energy,
+          ballisticVelocity: ballistic?.velocity ?? NaN,
+          ballisticEnergy: ballistic ? kineticEnergy(mass, ballistic.velocity) : NaN,
+          passes: energy <= limits.energyLimit && landing.descentRate <= limits.descentRateLimit
+        };
+      });
+  });
+}
+
+export function describeLandingSafety(rows: SectionLanding[], limits: LandingSafetyLimits): string[] {
+  if (rows.length === 0) return ["- not simulated"];
+  return [
+    `Limits: ${limits.energyLimit.toFixed(1)} J per section, ${limits.descentRateLimit.toFixed(1)} m/s descent rate`,
+    ...rows.map(row =>
+      `- ${row.trajectory} / ${row.section}: ${(row.mass * 1000).toFixed(0)} g, ` +
+      `${row.touchdownVelocity.toFixed(1)} m/s, ${row.kineticEnergy.toFixed(1)} J ${row.passes ? "PASS" : "FAIL"}; ` +
+      `ballistic ${Number.isFinite(row.ballisticVelocity) ? `${row.ballisticVelocity.toFixed(1)} m/s, ${row.ballisticEnergy.toFixed(0)} J` : "not simulated"}`
+    )
+  ];
+}
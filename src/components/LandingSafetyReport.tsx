@@ -0,0 +1,124 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Download, ShieldCheck } from "lucide-react";
+import { describeLandingSafety, type LandingSafetyLimits, type SectionLanding } from "./LandingSafety";
+
+interface LandingSafetyReportProps {
+  rows: SectionLanding[];
+  limits: LandingSafetyLimits;
+  onLimitsChange: (updates: Partial<LandingSafetyLimits>) => void;
+}
+
+const formatBallistic = (value: number, digits: number) => Number.isFinite(value) ? value.toFixed(digits) : "—";
+
+export const LandingSafetyReport = ({ rows, limits, onLimitsChange }: LandingSafetyReportProps) => {
+  const failures = rows.filter(row => !row.passes).length;
+
+  const exportReport = () => {
+    const report = [
+      "Landing Safety Report",
+      `Generated: ${new Date().toLocaleString()}`,
+      "",
+      ...describeLandingSafety(rows, limits)
+    ].join("\n");
+
+    const blob = new Blob([report], { type: "text/plain" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `landing-safety-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.txt`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <h3 className="font-semibold">Landing Safety</h3>
+          {rows.length > 0 && (
+            <Badge variant={failures === 0 ? "secondary" : "destructive"}>
+              {failures === 0 ? "All sections pass" : `${failures} section${failures > 1 ? "s" : ""} over the limit`}
+            </Badge>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={exportReport}
+          disabled={rows.length === 0}
+          className="flex items-center gap-2"
+        >
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">Kinetic energy limit (J)</Label>
+          <Input
+            type="number"
+            value={limits.energyLimit}
+            onChange={(e) => onLimitsChange({ energyLimit: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min="0"
+            step="0.1"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Descent rate limit (m/s)</Label>
+          <Input
+            type="number"
+            value={limits.descentRateLimit}
+            onChange={(e) => onLimitsChange({ descentRateLimit: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min="0"
+            step="0.1"
+          />
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground mt-4">Run a simulation to check each section's touchdown energy.</p>
+      ) : (
+        <>
+          <table className="w-full text-xs mt-4">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-normal">Section</th>
+                <th className="text-right font-normal">Mass (g)</th>
+                <th className="text-right font-normal">Touchdown (m/s)</th>
+                <th className="text-right font-normal">Energy (J)</th>
+                <th className="text-right font-normal">Ballistic (m/s)</th>
+                <th className="text-right font-normal">Ballistic (J)</th>
+                <th className="text-right font-normal">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.trajectory}/${row.section}`}>
+                  <td>{row.section === row.trajectory ? row.section : `${row.trajectory} / ${row.section}`}</td>
+                  <td className="text-right">{(row.mass * 1000).toFixed(0)}</td>
+                  <td className="text-right">{row.touchdownVelocity.toFixed(1)}</td>
+                  <td className="text-right">{row.kineticEnergy.toFixed(1)}</td>
+                  <td className="text-right">{formatBallistic(row.ballisticVelocity, 1)}</td>
+                  <td className="text-right">{formatBallistic(row.ballisticEnergy, 0)}</td>
+                  <td className={`text-right font-medium ${row.passes ? "text-rocket-success" : "text-destructive"}`}>
+                    {row.passes ? "PASS" : "FAIL"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground mt-2">
+            Pass/fail is judged under recovery; the ballistic columns show the impact if nothing deploys.
+            Parts default to their stage's section, nose cones to "Nose"; set a part's recovery section to split them further.
+          </p>
+        </>
+      )}
+    </Card>
+  );
+};
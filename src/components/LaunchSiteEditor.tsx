@@ -0,0 +1,76 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { MapPin } from "lucide-react";
+import type { LaunchConditions } from "./PhysicsEngine";
+import { formatCoordinate, normalGravity } from "./Geodesy";
+
+interface LaunchSiteEditorProps {
+  launchConditions: LaunchConditions;
+  onLaunchConditionsChange: (updates: Partial<LaunchConditions>) => void;
+}
+
+export const LaunchSiteEditor = ({ launchConditions, onLaunchConditionsChange }: LaunchSiteEditorProps) => {
+  const { latitude, longitude, altitude } = launchConditions;
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-4">
+        <MapPin className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Launch Site</h3>
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <Label className="text-xs">Latitude (°)</Label>
+            <Input
+              type="number"
+              value={latitude}
+              onChange={(e) => onLaunchConditionsChange({ latitude: Math.max(-90, Math.min(90, parseFloat(e.target.value) || 0)) })}
+              min="-90"
+              max="90"
+              step="0.0001"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Longitude (°)</Label>
+            <Input
+              type="number"
+              value={longitude}
+              onChange={(e) => onLaunchConditionsChange({ longitude: Math.max(-180, Math.min(180, parseFloat(e.target.value) || 0)) })}
+              min="-180"
+              max="180"
+              step="0.0001"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Elevation (m)</Label>
+            <Input
+              type="number"
+              value={altitude}
+              onChange={(e) => onLaunchConditionsChange({ altitude: parseFloat(e.target.value) || 0 })}
+              step="1"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="coriolis" className="text-sm">Coriolis force</Label>
+          <Switch
+            id="coriolis"
+            checked={launchConditions.coriolis ?? false}
+            onCheckedChange={(coriolis) => onLaunchConditionsChange({ coriolis })}
+          />
+        </div>
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>{formatCoordinate(latitude, longitude)}</p>
+          <p>Local gravity {normalGravity(latitude, altitude).toFixed(4)} m/s² (WGS84)</p>
+          <p>Earth's rotation deflects long, high flights by tens of metres; leave it off for small rockets.</p>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,151 @@
+import { Card } from "@/components/ui/card";
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from "recharts";
+import { Gauge } from "lucide-react";
+import type { LaunchConditions, RocketPhysics } from "./PhysicsEngine";
+import { Atmosphere } from "./Atmosphere";
+import { calculateDragCoefficient } from "./DragModel";
+import { calculateNormalForceAtMach } from "./Aerodynamics";
+
+interface MachAnalysisProps {
+  rocketPhysics: RocketPhysics | null;
+  launchConditions: LaunchConditions;
+}
+
+const MAX_MACH = 3;
+const MACH_STEP = 0.05;
+
+export const MachAnalysis = ({ rocketPhysics, launchConditions }: MachAnalysisProps) => {
+  if (!rocketPhysics) {
+    return null;
+  }
+
+  // Sweep the design through the Mach range at launch-site air
+  const air = new Atmosphere(launchConditions).getProperties(0);
+  const exhaustArea = rocketPhysics.motors
+    .filter(m => !m.failed)
+    .reduce((sum, m) => sum + Math.PI * Math.pow(m.diameter / 2, 2), 0);
+  const data = Array.from({ length: Math.round(MAX_MACH / MACH_STEP) }, (_, i) => {
+    const mach = (i + 1) * MACH_STEP;
+    const flow = {
+      airspeed: mach * air.speedOfSound,
+      mach,
+      density: air.density,
+      dynamicViscosity: air.dynamicViscosity
+    };
+    const { centerOfPressure } = calculateNormalForceAtMach(
+      rocketPhysics.aerodynamicSurfaces,
+      mach,
+      rocketPhysics.referenceArea
+    );
+    return {
+      mach,
+      coastDrag: calculateDragCoefficient(rocketPhysics.dragGeometry, { ...flow, exhaustArea: 0 }).total,
+      boostDrag: calculateDragCoefficient(rocketPhysics.dragGeometry, { ...flow, exhaustArea }).total,
+      centerOfPressure: centerOfPressure * 100
+    };
+  });
+
+  const peakDrag = data.reduce((peak, d) => d.coastDrag > peak.coastDrag ? d : peak, data[0]);
+  const cpShift = data[data.length - 1].centerOfPressure - data[0].centerOfPressure;
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-2">
+        <Gauge className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Mach Characteristics</h3>
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs mb-3">
+        <div>
+          <span className="text-muted-foreground">Peak Cd:</span>
+          <span className="ml-1 font-medium">{peakDrag.coastDrag.toFixed(3)} at M{peakDrag.mach.toFixed(2)}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">CP shift by M{MAX_MACH}:</span>
+          <span className="ml-1 font-medium">{cpShift >= 0 ? "+" : ""}{cpShift.toFixed(1)} cm</span>
+        </div>
+      </div>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis
+              dataKey="mach"
+              type="number"
+              domain={[0, MAX_MACH]}
+              tickFormatter={(mach: number) => `M${mach.toFixed(1)}`}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <YAxis
+              yAxisId="drag"
+              tickFormatter={(cd: number) => cd.toFixed(2)}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <YAxis
+              yAxisId="cp"
+              orientation="right"
+              domain={["auto", "auto"]}
+              tickFormatter={(cp: number) => `${cp.toFixed(0)}cm`}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <Tooltip
+              labelFormatter={(mach: number) => `Mach ${mach.toFixed(2)}`}
+              formatter={(value: number, name: string) => [
+                name === "CP" ? `${value.toFixed(1)} cm` : value.toFixed(3),
+                name
+              ]}
+            />
+            <Legend />
+            <Line
+              yAxisId="drag"
+              type="monotone"
+              dataKey="coastDrag"
+              stroke="hsl(var(--destructive))"
+              strokeWidth={2}
+              dot={false}
+              name="Cd (coast)"
+            />
+            <Line
+              yAxisId="drag"
+              type="monotone"
+              dataKey="boostDrag"
+              stroke="hsl(var(--rocket-thrust))"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              dot={false}
+              name="Cd (boost)"
+            />
+            <Line
+              yAxisId="cp"
+              type="monotone"
+              dataKey="centerOfPressure"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              dot={false}
+              name="CP"
+            />
+            <ReferenceLine
+              yAxisId="cp"
+              y={rocketPhysics.centerOfGravity * 100}
+              stroke="hsl(var(--rocket-warning))"
+              strokeDasharray="3 3"
+              label={{ value: "CG", fill: "hsl(var(--rocket-warning))", fontSize: 10 }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        CP measured from the nose tip. Evaluated at launch-site air; boost Cd has the motor exhaust filling the base.
+      </p>
+    </Card>
+  );
+};
@@ -0,0 +1,177 @@
+// Mass, center of gravity and moments of inertia of each part, built up from its
+// geometry and material, and combined about the rocket's CG with the parallel-axis theorem.
+
+import type { BodySegment, FinSetGeometry } from "./DragModel";
+import { DEFAULT_NOSE_SHAPE, noseRadius } from "./Aerodynamics";
+
+export interface MaterialProperty {
+  name: string;
+  density: number; // kg/m³
+  tensileStrength: number; // MPa
+  cost: number; // relative cost factor
+  description: string;
+}
+
+export const MATERIALS: Record<string, MaterialProperty> = {
+  cardboard: {
+    name: "Cardboard",
+    density: 700,
+    tensileStrength: 2,
+    cost: 1,
+    description: "Basic paper tube, suitable for low-power rockets"
+  },
+  phenolic: {
+    name: "Phenolic",
+    density: 1350,
+    tensileStrength: 55,
+    cost: 3,
+    description: "High-strength paper-phenolic composite"
+  },
+  fiberglass: {
+    name: "Fiberglass",
+    density: 1800,
+    tensileStrength: 400,
+    cost: 5,
+    description: "Glass fiber reinforced plastic"
+  },
+  carbonFiber: {
+    name: "Carbon Fiber",
+    density: 1600,
+    tensileStrength: 600,
+    cost: 10,
+    description: "Ultra-lightweight, high-strength carbon composite"
+  },
+  aluminum: {
+    name: "Aluminum",
+    density: 2700,
+    tensileStrength: 310,
+    cost: 4,
+    description: "Lightweight metal construction"
+  },
+  plastic: {
+    name: "ABS Plastic",
+    density: 1050,
+    tensileStrength: 40,
+    cost: 2,
+    description: "Injection molded thermoplastic"
+  }
+};
+
+export const DEFAULT_MATERIAL = "cardboard";
+
+export interface MassProperties {
+  mass: number; // kg
+  centerOfGravity: number; // m aft of the nose tip
+  longitudinalInertia: number; // pitch/yaw about its own CG, kg·m²
+  rotationalInertia: number; // roll about the body axis, kg·m²
+}
+
+export interface ComponentMassProperties extends MassProperties {
+  id: string;
+  name: string;
+  materialMass: number | null; // kg from geometry and material, null for parts whose mass is entered directly
+}
+
+export const NO_MASS: MassProperties = {
+  mass: 0,
+  centerOfGravity: 0,
+  longitudinalInertia: 0,
+  rotationalInertia: 0
+};
+
+const INTEGRATION_STEPS = 100;
+
+export function combineMassProperties(parts: MassProperties[]): MassProperties {
+  const mass = parts.reduce((sum, p) => sum + p.mass, 0);
+  if (mass <= 0) return { ...NO_MASS };
+
+  const centerOfGravity = parts.reduce((sum, p) => sum + p.mass * p.centerOfGravity, 0) / mass;
+  return {
+    mass,
+    centerOfGravity,
+    // Parallel-axis theorem: each part's own inertia plus its mass times the offset squared
+    longitudinalInertia: parts.reduce((sum, p) =>
+      sum + p.longitudinalInertia + p.mass * Math.pow(p.centerOfGravity - centerOfGravity, 2), 0),
+    rotationalInertia: parts.reduce((sum, p) => sum + p.rotationalInertia, 0)
+  };
+}
+
+// The same distribution carrying a different mass
+export function scaleMassProperties(properties: MassProperties, mass: number): MassProperties {
+  const ratio = properties.mass > 0 ? mass / properties.mass : 0;
+  return {
+    mass,
+    centerOfGravity: properties.centerOfGravity,
+    longitudinalInertia: properties.longitudinalInertia * ratio,
+    rotationalInertia: properties.rotationalInertia * ratio
+  };
+}
+
+// Off-axis parts, such as outboard cluster motors, spread around the axis on average
+export function offsetMassProperties(properties: MassProperties, radialOffset: number): MassProperties {
+  const offset = properties.mass * radialOffset * radialOffset;
+  return {
+    ...properties,
+    longitudinalInertia: properties.longitudinalInertia + offset / 2,
+    rotationalInertia: properties.rotationalInertia + offset
+  };
+}
+
+export function cylinderMassProperties(
+  mass: number,
+  center: number, // m aft of the nose tip
+  length: number, // m
+  outerRadius: number, // m
+  innerRadius: number = 0 // m, 0 for a solid cylinder
+): MassProperties {
+  const radii = outerRadius * outerRadius + innerRadius * innerRadius;
+  return {
+    mass,
+    centerOfGravity: center,
+    longitudinalInertia: mass * (3 * radii + length * length) / 12,
+    rotationalInertia: mass * radii / 2
+  };
+}
+
+// Hollow body of revolution: nose cone shell, body tube or transition
+export function shellMassProperties(segment: BodySegment, thickness: number, density: number): MassProperties {
+  const { position, length, foreDiameter, aftDiameter } = segment;
+  if (length <= 0) return { ...NO_MASS };
+
+  const outerRadiusAt = (x: number) => segment.kind === "nose"
+    ? noseRadius(segment.shape ?? DEFAULT_NOSE_SHAPE, x, length, aftDiameter / 2)
+    : (foreDiameter + (aftDiameter - foreDiameter) * x / length) / 2;
+
+  // Thin annular slices along the axis
+  const dx = length / INTEGRATION_STEPS;
+  const slices: MassProperties[] = Array.from({ length: INTEGRATION_STEPS }, (_, i) => {
+    const x = (i + 0.5) * dx;
+    const outer = outerRadiusAt(x);
+    const inner = Math.max(0, outer - thickness);
+    const mass = density * Math.PI * (outer * outer - inner * inner) * dx;
+    return cylinderMassProperties(mass, position + x, dx, outer, inner);
+  });
+  return combineMassProperties(slices);
+}
+
+// Flat trapezoidal fins spaced evenly around the body
+export function finSetMassProperties(fins: FinSetGeometry, leadingEdge: number, density: number): MassProperties {
+  const { count, rootChord, tipChord, span, sweepAngle, thickness, bodyRadius } = fins;
+  if (span <= 0 || count <= 0) return { ...NO_MASS };
+
+  // Spanwise strips, each a thin chordwise rod at its distance from the axis
+  const dy = span / INTEGRATION_STEPS;
+  const strips: MassProperties[] = Array.from({ length: INTEGRATION_STEPS }, (_, i) => {
+    const y = (i + 0.5) * dy;
+    const chord = rootChord + (tipChord - rootChord) * y / span;
+    const mass = count * density * thickness * chord * dy;
+    const radius = bodyRadius + y;
+    return {
+      mass,
+      centerOfGravity: leadingEdge + y * Math.tan(sweepAngle) + chord / 2,
+      longitudinalInertia: mass * (chord * chord / 12 + radius * radius / 2),
+      rotationalInertia: mass * radius * radius
+    };
+  });
+  return combineMassProperties(strips);
+}
@@ -0,0 +1,278 @@
+// Monte Carlo dispersion analysis: repeat the flight with randomly perturbed motor,
+// airframe, launch and wind parameters drawn from a seeded generator, then summarize
+// where the rocket goes and where it comes down.
+
+import type { LaunchConditions, MotorData, PhysicsEngine, RocketPhysics, SimulationOptions, StagePhysics } from "./PhysicsEngine";
+import { scaleMassProperties } from "./MassModel";
+import { createRandom, type RandomSource } from "./Random";
+
+export type DistributionType = "normal" | "uniform";
+
+export interface Distribution {
+  type: DistributionType;
+  spread: number; // standard deviation for normal, half-width for uniform
+}
+
+export interface DispersionSettings {
+  runs: number;
+  seed: number;
+  impulse: Distribution; // fraction of the rated impulse
+  dragCoefficient: Distribution; // fraction of Cd
+  mass: Distribution; // fraction of the dry mass
+  launchAngle: Distribution; // degrees
+  windSpeed: Distribution; // m/s
+  windDirection: Distribution; // degrees
+  deploymentTiming: Distribution; // s added to ejection delays and deployment timers
+}
+
+export const DEFAULT_DISPERSION_SETTINGS: DispersionSettings = {
+  runs: 100,
+  seed: 1,
+  impulse: { type: "normal", spread: 0.03 },
+  dragCoefficient: { type: "normal", spread: 0.05 },
+  mass: { type: "normal", spread: 0.02 },
+  launchAngle: { type: "normal", spread: 1 },
+  windSpeed: { type: "normal", spread: 1.5 },
+  windDirection: { type: "normal", spread: 15 },
+  deploymentTiming: { type: "uniform", spread: 1 }
+};
+
+export interface DispersionSample {
+  impulse: number; // fractional change
+  dragCoefficient: number; // fractional change
+  mass: number; // fractional change
+  launchAngle: number; // degrees added
+  windSpeed: number; // m/s added
+  windDirection: number; // degrees added
+  deploymentTiming: number; // s added
+  turbulenceSeed: number;
+}
+
+export interface DispersionRun {
+  sample: DispersionSample;
+  apogee: number; // m
+  landingNorth: number; // m from the pad
+  landingEast: number; // m from the pad
+  landingDistance: number; // m from the pad
+  flightTime: number; // s
+  landed: boolean; // false when the flight hit the time limit first; its landing fields are where it stopped
+}
+
+export interface PercentileRow {
+  mean: number;
+  standardDeviation: number;
+  percentiles: Record<number, number>;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface LandingEllipse {
+  sigma: number; // 1, 2 or 3
+  centerNorth: number; // m
+  centerEast: number; // m
+  semiMajor: number; // m
+  semiMinor: number; // m
+  orientation: number; // radians of the major axis, clockwise from north
+}
+
+export const DISPERSION_PERCENTILES = [5, 25, 50, 75, 95];
+
+// Reported runs only feed the statistics, so they don't need dense output
+const DISPERSION_OUTPUT_RATE = 2; // samples per second
+
+function sampleDistribution(random: RandomSource, distribution: Distribution): number {
+  return distribution.type === "uniform"
+    ? (2 * random.next() - 1) * distribution.spread
+    : random.normal() * distribution.spread;
+}
+
+export function sampleDispersion(random: RandomSource, settings: DispersionSettings): DispersionSample {
+  return {
+    impulse: sampleDistribution(random, settings.impulse),
+    dragCoefficient: sampleDistribution(random, settings.dragCoefficient),
+    mass: sampleDistribution(random, settings.mass),
+    launchAngle: sampleDistribution(random, settings.launchAngle),
+    windSpeed: sampleDistribution(random, settings.windSpeed),
+    windDirection: sampleDistribution(random, settings.windDirection),
+    deploymentTiming: sampleDistribution(random, settings.deploymentTiming),
+    turbulenceSeed: Math.floor(random.next() * 2147483647)
+  };
+}
+
+// Every run's sample, drawn up front so a run's inputs don't depend on how the runs are scheduled
+export function sampleDispersionRuns(settings: DispersionSettings): DispersionSample[] {
+  const random = createRandom(settings.seed);
+  return Array.from({ length: Math.max(0, Math.round(settings.runs)) }, () => sampleDispersion(random, settings));
+}
+
+function perturbMotor(motor: MotorData, sample: DispersionSample): MotorData {
+  const impulseScale = Math.max(0, 1 + sample.impulse);
+  return {
+    ...motor,
+    totalImpulse: motor.totalImpulse * impulseScale,
+    averageThrust: motor.averageThrust * impulseScale,
+    maxThrust: motor.maxThrust * impulseScale,
+    thrustCurve: motor.thrustCurve.map(point => ({ time: point.time, thrust: point.thrust * impulseScale })),
+    delay: Math.max(0, motor.delay + sample.deploymentTiming)
+  };
+}
+
+export function perturbRocket(engine: PhysicsEngine, rocketPhysics: RocketPhysics, sample: DispersionSample): RocketPhysics {
+  const dryMassProperties = scaleMassProperties(
+    rocketPhysics.dryMassProperties,
+    rocketPhysics.dryMassProperties.mass * Math.max(0.1, 1 + sample.mass)
+  );
+  const perturbed: RocketPhysics = {
+    ...rocketPhysics,
+    dryMass: dryMassProperties.mass,
+    dryMassProperties,
+    dragFactor: rocketPhysics.dragFactor * Math.max(0.1, 1 + sample.dragCoefficient),
+    motors: rocketPhysics.motors.map(mount => ({ ...mount, motorData: perturbMotor(mount.motorData, sample) })),
+    recoveryDevices: rocketPhysics.recoveryDevices.map(device => device.trigger === "timer"
+      ? { ...device, deploymentDelay: Math.max(0, device.deploymentDelay + sample.deploymentTiming) }
+      : device)
+  };
+
+  const liftoff = engine.calculateMassProperties(perturbed);
+  return {
+    ...perturbed,
+    totalMass: liftoff.mass,
+    centerOfGravity: liftoff.centerOfGravity,
+    stabilityMargin: engine.calculateStabilityMargin(liftoff.centerOfGravity, perturbed.centerOfPressure, perturbed.diameter),
+    longitudinalInertia: liftoff.longitudinalInertia,
+    rotationalInertia: liftoff.rotationalInertia
+  };
+}
+
+export function perturbLaunchConditions(launchConditions: LaunchConditions, sample: DispersionSample): LaunchConditions {
+  return {
+    ...launchConditions,
+    launchAngle: launchConditions.launchAngle + sample.launchAngle,
+    windSpeed: Math.max(0, launchConditions.windSpeed + sample.windSpeed),
+    windDirection: ((launchConditions.windDirection + sample.windDirection) % 360 + 360) % 360,
+    windProfile: { ...launchConditions.windProfile, seed: sample.turbulenceSeed }
+  };
+}
+
+export function runDispersionCase(
+  engine: PhysicsEngine,
+  stages: StagePhysics[],
+  launchConditions: LaunchConditions,
+  sample: DispersionSample,
+  options: Partial<SimulationOptions> = {}
+): DispersionRun {
+  // The user's integrator settings apply; the landing point needs the flight to run to the ground
+  // The same draw applies to every stage; the upper stage's flight is the one reported
+  const perturbedStages = stages.map(stage => ({
+    ...stage,
+    stack: perturbRocket(engine, stage.stack, sample),
+    body: perturbRocket(engine, stage.body, sample)
+  }));
+  const [primary] = engine.runStagedSimulation(
+    perturbedStages,
+    perturbLaunchConditions(launchConditions, sample),
+    { ...options, outputSampling: "rate", outputRate: DISPERSION_OUTPUT_RATE, stopEvent: "landing" }
+  );
+  const touchdown = primary.events.find(event => event.type === "landing")?.state;
+  const landing = touchdown ?? primary.data[primary.data.length - 1];
+
+  return {
+    sample,
+    apogee: Math.max(...primary.data.map(point => point.altitude)),
+    landingNorth: landing.position.x,
+    landingEast: landing.position.z,
+    landingDistance: Math.sqrt(landing.position.x * landing.position.x + landing.position.z * landing.position.z),
+    flightTime: landing.time,
+    landed: touchdown !== undefined
+  };
+}
+
+export function percentile(sorted: number[], p: number): number {
+  // Linear interpolation between closest ranks
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.min(sorted.length - 1, low + 1);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+export function summarize(values: number[]): PercentileRow {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (values.length - 1)
+    : 0;
+  return {
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    percentiles: Object.fromEntries(DISPERSION_PERCENTILES.map(p => [p, percentile(sorted, p)]))
+  };
+}
+
+export function histogram(values: number[], binCount: number): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins = Array.from({ length: binCount }, (_, i) => ({ start: min + i * width, end: min + (i + 1) * width, count: 0 }));
+  values.forEach(value => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+}
+
+export function landingEllipses(allRuns: DispersionRun[], sigmas: number[] = [1, 2, 3]): LandingEllipse[] {
+  // Principal axes of the landing-point covariance, over the runs that came down
+  const runs = allRuns.filter(r => r.landed);
+  if (runs.length < 2) return [];
+  const n = runs.length;
+  const centerNorth = runs.reduce((sum, r) => sum + r.landingNorth, 0) / n;
+  const centerEast = runs.reduce((sum, r) => sum + r.landingEast, 0) / n;
+  let nn = 0;
+  let ee = 0;
+  let ne = 0;
+  runs.forEach(r => {
+    const dn = r.landingNorth - centerNorth;
+    const de = r.landingEast - centerEast;
+    nn += dn * dn;
+    ee += de * de;
+    ne += dn * de;
+  });
+  nn /= n - 1;
+  ee /= n - 1;
+  ne /= n - 1;
+
+  const mean = (nn + ee) / 2;
+  const spread = Math.sqrt(Math.pow((nn - ee) / 2, 2) + ne * ne);
+  const major = Math.sqrt(Math.max(0, mean + spread));
+  const minor = Math.sqrt(Math.max(0, mean - spread));
+  const orientation = 0.5 * Math.atan2(2 * ne, nn - ee);
+
+  return sigmas.map(sigma => ({
+    sigma,
+    centerNorth,
+    centerEast,
+    semiMajor: sigma * major,
+    semiMinor: sigma * minor,
+    orientation
+  }));
+}
+
+// Outline of an ellipse as north/east points, for plotting
+export function ellipseOutline(ellipse: LandingEllipse, points: number = 72): Array<{ north: number; east: number }> {
+  const cos = Math.cos(ellipse.orientation);
+  const sin = Math.sin(ellipse.orientation);
+  return Array.from({ length: points + 1 }, (_, i) => {
+    const angle = (2 * Math.PI * i) / points;
+    const major = ellipse.semiMajor * Math.cos(angle);
+    const minor = ellipse.semiMinor * Math.sin(angle);
+    return {
+      north: ellipse.centerNorth + major * cos - minor * sin,
+      east: ellipse.centerEast + major * sin + minor * cos
+    };
+  });
+}
@@ -0,0 +1,313 @@
+import { useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  BarChart,
+  Bar,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from "recharts";
+import { Dices, Square } from "lucide-react";
+import { DEFAULT_SIMULATION_OPTIONS, type LaunchConditions, type SimulationOptions, type StagePhysics } from "./PhysicsEngine";
+import { isCancellation, runInWorkerPool } from "./SimulationClient";
+import {
+  DEFAULT_DISPERSION_SETTINGS,
+  DISPERSION_PERCENTILES,
+  ellipseOutline,
+  histogram,
+  landingEllipses,
+  sampleDispersionRuns,
+  summarize,
+  type DispersionRun,
+  type DispersionSettings,
+  type Distribution,
+  type DistributionType
+} from "./MonteCarlo";
+
+interface MonteCarloAnalysisProps {
+  stages: StagePhysics[];
+  launchConditions: LaunchConditions;
+  options: Partial<SimulationOptions>;
+}
+
+type DistributionKey = Exclude<keyof DispersionSettings, "runs" | "seed">;
+
+const DISTRIBUTION_FIELDS: Array<{ key: DistributionKey; label: string; scale: number; step: number }> = [
+  { key: "impulse", label: "Impulse (%)", scale: 100, step: 0.5 },
+  { key: "dragCoefficient", label: "Drag Cd (%)", scale: 100, step: 0.5 },
+  { key: "mass", label: "Mass (%)", scale: 100, step: 0.5 },
+  { key: "launchAngle", label: "Launch Angle (°)", scale: 1, step: 0.1 },
+  { key: "windSpeed", label: "Wind Speed (m/s)", scale: 1, step: 0.1 },
+  { key: "windDirection", label: "Wind Direction (°)", scale: 1, step: 1 },
+  { key: "deploymentTiming", label: "Deployment Timing (s)", scale: 1, step: 0.1 }
+];
+
+const HISTOGRAM_BINS = 12;
+const ELLIPSE_COLORS = ["hsl(var(--rocket-success))", "hsl(var(--rocket-warning))", "hsl(var(--destructive))"];
+
+export const MonteCarloAnalysis = ({ stages, launchConditions, options }: MonteCarloAnalysisProps) => {
+  const [settings, setSettings] = useState<DispersionSettings>(DEFAULT_DISPERSION_SETTINGS);
+  const [runs, setRuns] = useState<DispersionRun[]>([]);
+  const [plannedRuns, setPlannedRuns] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const stopRuns = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  useEffect(() => stopRuns, []);
+
+  const startRuns = async () => {
+    stopRuns();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const samples = sampleDispersionRuns(settings);
+    const completed: DispersionRun[] = [];
+    setRuns([]);
+    setError(null);
+    setPlannedRuns(samples.length);
+    setIsRunning(true);
+
+    // Runs finish out of order across the pool; the statistics don't care
+    try {
+      await runInWorkerPool(
+        samples.map(sample => ({ kind: "dispersion" as const, stages, launchConditions, options, sample })),
+        run => {
+          completed.push(run);
+          setRuns([...completed]);
+        },
+        controller.signal
+      );
+    } catch (error) {
+      // Stopping keeps the runs finished so far
+      if (!isCancellation(error)) setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  const updateDistribution = (key: DistributionKey, updates: Partial<Distribution>) => {
+    setSettings(prev => ({ ...prev, [key]: { ...prev[key], ...updates } }));
+  };
+
+  const apogeeHistogram = histogram(runs.map(r => r.apogee), HISTOGRAM_BINS)
+    .map(bin => ({ label: ((bin.start + bin.end) / 2).toFixed(0), count: bin.count }));
+  // A run cut off by the time limit has no landing point to contribute
+  const landedRuns = runs.filter(r => r.landed);
+  const unlandedRuns = runs.length - landedRuns.length;
+  const distanceHistogram = histogram(landedRuns.map(r => r.landingDistance), HISTOGRAM_BINS)
+    .map(bin => ({ label: ((bin.start + bin.end) / 2).toFixed(0), count: bin.count }));
+  const landings = landedRuns.map(r => ({ east: r.landingEast, north: r.landingNorth }));
+  const ellipses = landingEllipses(runs);
+  const statistics = [
+    { name: "Apogee", unit: "m", row: summarize(runs.map(r => r.apogee)) },
+    { name: "Landing distance", unit: "m", row: summarize(landedRuns.map(r => r.landingDistance)) },
+    { name: "Landing north", unit: "m", row: summarize(landedRuns.map(r => r.landingNorth)) },
+    { name: "Landing east", unit: "m", row: summarize(landedRuns.map(r => r.landingEast)) },
+    { name: "Flight time", unit: "s", row: summarize(landedRuns.map(r => r.flightTime)) }
+  ];
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Dices className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Monte Carlo Dispersion</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <div>
+          <Label className="text-xs">Runs</Label>
+          <Input
+            type="number"
+            value={settings.runs}
+            onChange={(e) => setSettings(prev => ({ ...prev, runs: parseInt(e.target.value) || 0 }))}
+            min="2"
+            max="2000"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Seed</Label>
+          <Input
+            type="number"
+            value={settings.seed}
+            onChange={(e) => setSettings(prev => ({ ...prev, seed: parseInt(e.target.value) || 0 }))}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {DISTRIBUTION_FIELDS.map(({ key, label, scale, step }) => (
+          <div key={key} className="grid grid-cols-3 gap-2 items-end">
+            <Label className="text-xs pb-3">{label}</Label>
+            <Select
+              value={settings[key].type}
+              onValueChange={(value) => updateDistribution(key, { type: value as DistributionType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="normal">Normal ±σ</SelectItem>
+                <SelectItem value="uniform">Uniform ±</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              value={+(settings[key].spread * scale).toFixed(4)}
+              onChange={(e) => updateDistribution(key, { spread: Math.max(0, parseFloat(e.target.value) || 0) / scale })}
+              min="0"
+              step={step}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <Button size="sm" onClick={startRuns} disabled={isRunning || stages.length === 0 || settings.runs < 2}>
+          <Dices className="h-4 w-4 mr-1" />
+          Run Dispersion
+        </Button>
+        {isRunning && (
+          <Button variant="outline" size="sm" onClick={stopRuns}>
+            <Square className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+        )}
+        <span className="text-xs text-muted-foreground ml-auto">{runs.length}/{plannedRuns} runs</span>
+      </div>
+      {isRunning && <Progress value={(runs.length / Math.max(1, plannedRuns)) * 100} className="h-2 mb-4" />}
+      {error && <p className="text-xs text-destructive mb-4">Dispersion runs failed: {error}</p>}
+      {unlandedRuns > 0 && (
+        <p className="text-xs text-rocket-warning mb-4">
+          {unlandedRuns} run{unlandedRuns > 1 ? "s" : ""} hit the {(options.maxTime ?? DEFAULT_SIMULATION_OPTIONS.maxTime).toFixed(0)} s
+          {" "}time limit before landing and {unlandedRuns > 1 ? "are" : "is"} left out of the landing statistics.
+        </p>
+      )}
+
+      {runs.length >= 2 && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="h-40">
+              <p className="text-xs text-muted-foreground mb-1">Apogee (m)</p>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={apogeeHistogram}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={10} />
+                  <YAxis allowDecimals={false} stroke="hsl(var(--muted-foreground))" fontSize={10} />
+                  <Tooltip formatter={(value: number) => [value, "Runs"]} />
+                  <Bar dataKey="count" fill="hsl(var(--primary))" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-40">
+              <p className="text-xs text-muted-foreground mb-1">Landing distance (m)</p>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={distanceHistogram}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={10} />
+                  <YAxis allowDecimals={false} stroke="hsl(var(--muted-foreground))" fontSize={10} />
+                  <Tooltip formatter={(value: number) => [value, "Runs"]} />
+                  <Bar dataKey="count" fill="hsl(var(--accent))" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="h-72 mt-4">
+            <p className="text-xs text-muted-foreground mb-1">Landing points, top-down (pad at origin)</p>
+            <ResponsiveContainer width="100%" height="92%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="east"
+                  type="number"
+                  name="East"
+                  unit=" m"
+                  tickFormatter={(value: number) => value.toFixed(0)}
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={10}
+                />
+                <YAxis
+                  dataKey="north"
+                  type="number"
+                  name="North"
+                  unit=" m"
+                  tickFormatter={(value: number) => value.toFixed(0)}
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={10}
+                />
+                <ZAxis range={[20, 20]} />
+                <Tooltip formatter={(value: number) => value.toFixed(1)} />
+                <Legend />
+                <Scatter name="Landings" data={landings} fill="hsl(var(--primary))" />
+                <Scatter name="Pad" data={[{ east: 0, north: 0 }]} fill="hsl(var(--foreground))" shape="cross" />
+                {ellipses.map((ellipse, i) => (
+                  <Scatter
+                    key={ellipse.sigma}
+                    name={`${ellipse.sigma}σ`}
+                    data={ellipseOutline(ellipse)}
+                    line={{ stroke: ELLIPSE_COLORS[i % ELLIPSE_COLORS.length], strokeWidth: 1.5 }}
+                    fill={ELLIPSE_COLORS[i % ELLIPSE_COLORS.length]}
+                    shape={() => <g />}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+
+          <table className="w-full text-xs mt-4">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-normal">Quantity</th>
+                <th className="text-right font-normal">Mean</th>
+                <th className="text-right font-normal">σ</th>
+                {DISPERSION_PERCENTILES.map(p => (
+                  <th key={p} className="text-right font-normal">P{p}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {statistics.map(({ name, unit, row }) => (
+                <tr key={name}>
+                  <td>{name} ({unit})</td>
+                  <td className="text-right">{row.mean.toFixed(1)}</td>
+                  <td className="text-right">{row.standardDeviation.toFixed(1)}</td>
+                  {DISPERSION_PERCENTILES.map(p => (
+                    <td key={p} className="text-right">{row.percentiles[p].toFixed(1)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {ellipses.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Landing ellipses: {ellipses.map(e => `${e.sigma}σ ${e.semiMajor.toFixed(0)} × ${e.semiMinor.toFixed(0)} m`).join(", ")},
+              centered {Math.abs(ellipses[0].centerNorth).toFixed(0)} m {ellipses[0].centerNorth >= 0 ? "north" : "south"} and
+              {" "}{Math.abs(ellipses[0].centerEast).toFixed(0)} m {ellipses[0].centerEast >= 0 ? "east" : "west"} of the pad.
+            </p>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
@@ -15,301 +15,13 @@ import {
   Star
 } from "lucide-react";
 import type { MotorData } from "./PhysicsEngine";
+import { MOTOR_DATABASE } from "./MotorCatalog";
 
 interface MotorDatabaseProps {
   selectedMotor: MotorData | null;
   onMotorSelect: (motor: MotorData) => void;
 }
 
-// Comprehensive motor database based on real NAR certified motors
-const MOTOR_DATABASE: MotorData[] = [
-  // A Class Motors
-  {
-    designation: "A8-3",
-    totalImpulse: 2.5,
-    burnTime: 0.5,
-    averageThrust: 5.0,
-    maxThrust: 12.15,
-    propellantMass: 0.0018,
-    totalMass: 0.0087,
-    delay: 3,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.02, thrust: 12.15 },
-      { time: 0.1, thrust: 8.5 },
-      { time: 0.3, thrust: 5.2 },
-      { time: 0.45, thrust: 3.1 },
-      { time: 0.5, thrust: 0 }
-    ]
-  },
-  {
-    designation: "A10-3T",
-    totalImpulse: 2.5,
-    burnTime: 0.25,
-    averageThrust: 10.0,
-    maxThrust: 18.6,
-    propellantMass: 0.0016,
-    totalMass: 0.0083,
-    delay: 3,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.01, thrust: 18.6 },
-      { time: 0.05, thrust: 15.2 },
-      { time: 0.15, thrust: 8.4 },
-      { time: 0.22, thrust: 4.2 },
-      { time: 0.25, thrust: 0 }
-    ]
-  },
-  
-  // B Class Motors
-  {
-    designation: "B6-4",
-    totalImpulse: 5.0,
-    burnTime: 0.8,
-    averageThrust: 6.25,
-    maxThrust: 12.8,
-    propellantMass: 0.0032,
-    totalMass: 0.0117,
-    delay: 4,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.02, thrust: 12.8 },
-      { time: 0.1, thrust: 10.1 },
-      { time: 0.4, thrust: 6.8 },
-      { time: 0.7, thrust: 4.2 },
-      { time: 0.8, thrust: 0 }
-    ]
-  },
-  {
-    designation: "B4-2",
-    totalImpulse: 5.0,
-    burnTime: 1.2,
-    averageThrust: 4.17,
-    maxThrust: 8.4,
-    propellantMass: 0.0035,
-    totalMass: 0.0121,
-    delay: 2,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.03, thrust: 8.4 },
-      { time: 0.2, thrust: 6.2 },
-      { time: 0.8, thrust: 3.8 },
-      { time: 1.1, thrust: 2.1 },
-      { time: 1.2, thrust: 0 }
-    ]
-  },
-
-  // C Class Motors
-  {
-    designation: "C6-5",
-    totalImpulse: 10.0,
-    burnTime: 1.6,
-    averageThrust: 6.25,
-    maxThrust: 14.2,
-    propellantMass: 0.0065,
-    totalMass: 0.0186,
-    delay: 5,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.04, thrust: 14.2 },
-      { time: 0.2, thrust: 11.8 },
-      { time: 0.8, thrust: 7.2 },
-      { time: 1.4, thrust: 3.8 },
-      { time: 1.6, thrust: 0 }
-    ]
-  },
-  {
-    designation: "C11-3",
-    totalImpulse: 10.0,
-    burnTime: 0.9,
-    averageThrust: 11.1,
-    maxThrust: 24.5,
-    propellantMass: 0.0058,
-    totalMass: 0.0179,
-    delay: 3,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.02, thrust: 24.5 },
-      { time: 0.1, thrust: 18.2 },
-      { time: 0.5, thrust: 10.8 },
-      { time: 0.8, thrust: 5.4 },
-      { time: 0.9, thrust: 0 }
-    ]
-  },
-
-  // D Class Motors
-  {
-    designation: "D12-5",
-    totalImpulse: 20.0,
-    burnTime: 1.7,
-    averageThrust: 11.8,
-    maxThrust: 25.8,
-    propellantMass: 0.0127,
-    totalMass: 0.0378,
-    delay: 5,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.05, thrust: 25.8 },
-      { time: 0.3, thrust: 20.4 },
-      { time: 0.9, thrust: 12.6 },
-      { time: 1.5, thrust: 6.8 },
-      { time: 1.7, thrust: 0 }
-    ]
-  },
-  {
-    designation: "D15-4",
-    totalImpulse: 20.0,
-    burnTime: 1.3,
-    averageThrust: 15.4,
-    maxThrust: 32.1,
-    propellantMass: 0.0118,
-    totalMass: 0.0369,
-    delay: 4,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.03, thrust: 32.1 },
-      { time: 0.2, thrust: 26.8 },
-      { time: 0.7, thrust: 15.2 },
-      { time: 1.1, thrust: 8.4 },
-      { time: 1.3, thrust: 0 }
-    ]
-  },
-
-  // E Class Motors
-  {
-    designation: "E9-6",
-    totalImpulse: 40.0,
-    burnTime: 4.5,
-    averageThrust: 8.9,
-    maxThrust: 18.6,
-    propellantMass: 0.0254,
-    totalMass: 0.0756,
-    delay: 6,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.1, thrust: 18.6 },
-      { time: 0.8, thrust: 15.2 },
-      { time: 2.5, thrust: 9.8 },
-      { time: 4.0, thrust: 4.2 },
-      { time: 4.5, thrust: 0 }
-    ]
-  },
-  {
-    designation: "E12-4",
-    totalImpulse: 40.0,
-    burnTime: 3.2,
-    averageThrust: 12.5,
-    maxThrust: 28.4,
-    propellantMass: 0.0241,
-    totalMass: 0.0743,
-    delay: 4,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.08, thrust: 28.4 },
-      { time: 0.5, thrust: 22.1 },
-      { time: 1.8, thrust: 12.8 },
-      { time: 2.8, thrust: 6.4 },
-      { time: 3.2, thrust: 0 }
-    ]
-  },
-
-  // F Class Motors (High Power)
-  {
-    designation: "F15-4",
-    totalImpulse: 80.0,
-    burnTime: 5.3,
-    averageThrust: 15.1,
-    maxThrust: 32.8,
-    propellantMass: 0.0485,
-    totalMass: 0.1458,
-    delay: 4,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.12, thrust: 32.8 },
-      { time: 0.8, thrust: 28.4 },
-      { time: 3.0, thrust: 15.8 },
-      { time: 4.8, thrust: 7.2 },
-      { time: 5.3, thrust: 0 }
-    ]
-  },
-
-  // G Class Motors (High Power)
-  {
-    designation: "G80-7",
-    totalImpulse: 120.0,
-    burnTime: 1.5,
-    averageThrust: 80.0,
-    maxThrust: 140.5,
-    propellantMass: 0.0712,
-    totalMass: 0.2136,
-    delay: 7,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.05, thrust: 140.5 },
-      { time: 0.3, thrust: 110.2 },
-      { time: 0.8, thrust: 85.4 },
-      { time: 1.2, thrust: 45.8 },
-      { time: 1.5, thrust: 0 }
-    ]
-  },
-  {
-    designation: "G64-4",
-    totalImpulse: 120.0,
-    burnTime: 1.9,
-    averageThrust: 63.2,
-    maxThrust: 98.7,
-    propellantMass: 0.0698,
-    totalMass: 0.2094,
-    delay: 4,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.08, thrust: 98.7 },
-      { time: 0.4, thrust: 85.2 },
-      { time: 1.0, thrust: 65.8 },
-      { time: 1.6, thrust: 38.4 },
-      { time: 1.9, thrust: 0 }
-    ]
-  },
-
-  // H Class Motors (High Power)
-  {
-    designation: "H128-5",
-    totalImpulse: 240.0,
-    burnTime: 1.9,
-    averageThrust: 126.3,
-    maxThrust: 220.8,
-    propellantMass: 0.1284,
-    totalMass: 0.3852,
-    delay: 5,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.06, thrust: 220.8 },
-      { time: 0.3, thrust: 185.4 },
-      { time: 0.9, thrust: 135.7 },
-      { time: 1.5, thrust: 78.2 },
-      { time: 1.9, thrust: 0 }
-    ]
-  },
-  {
-    designation: "H97-6",
-    totalImpulse: 240.0,
-    burnTime: 2.5,
-    averageThrust: 96.0,
-    maxThrust: 165.3,
-    propellantMass: 0.1247,
-    totalMass: 0.3741,
-    delay: 6,
-    thrustCurve: [
-      { time: 0, thrust: 0 },
-      { time: 0.1, thrust: 165.3 },
-      { time: 0.5, thrust: 142.8 },
-      { time: 1.3, thrust: 98.5 },
-      { time: 2.1, thrust: 54.7 },
-      { time: 2.5, thrust: 0 }
-    ]
-  }
-];
-
 export const MotorDatabase = ({ selectedMotor, onMotorSelect }: MotorDatabaseProps) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [classFilter, setClassFilter] = useState<string>("all");
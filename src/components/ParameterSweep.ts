@@ -0,0 +1,310 @@
+// Batch simulations over one design or launch parameter, and one-at-a-time sensitivity
+// ranking (tornado) of the design and launch parameters around the current design.
+
+import type { RocketComponent } from "./RocketDesigner";
+import type { LaunchConditions, MotorData, PhysicsEngine, SimulationOptions, StageConfiguration } from "./PhysicsEngine";
+import { MOTOR_DATABASE, findMotor } from "./MotorCatalog";
+
+export type SweepParameter =
+  | { kind: "component"; componentId: string; field: NumericComponentField }
+  | { kind: "launch"; field: NumericLaunchField }
+  | { kind: "motor" };
+
+export type NumericComponentField = {
+  [K in keyof RocketComponent]-?: NonNullable<RocketComponent[K]> extends number ? K : never
+}[keyof RocketComponent];
+
+export type NumericLaunchField = {
+  [K in keyof LaunchConditions]-?: NonNullable<LaunchConditions[K]> extends number ? K : never
+}[keyof LaunchConditions];
+
+export interface SweepDesign {
+  components: RocketComponent[];
+  motor: MotorData | null;
+  stageConfigurations: StageConfiguration[];
+  launchConditions: LaunchConditions;
+}
+
+export interface SweepOutputs {
+  apogee: number; // m
+  maxVelocity: number; // m/s
+  railExitVelocity: number; // m/s
+  staticMargin: number; // calibers at liftoff
+}
+
+export type SweepOutput = keyof SweepOutputs;
+
+export interface SweepPoint {
+  value: number; // swept value; total impulse for a motor sweep
+  label: string;
+  outputs: SweepOutputs;
+}
+
+export interface SensitivityBar {
+  parameter: SweepParameter;
+  label: string;
+  lowValue: number;
+  highValue: number;
+  low: SweepOutputs; // with the parameter lowered
+  high: SweepOutputs; // with the parameter raised
+}
+
+export const SWEEP_OUTPUTS: Record<SweepOutput, { label: string; unit: string }> = {
+  apogee: { label: "Apogee", unit: "m" },
+  maxVelocity: { label: "Max Velocity", unit: "m/s" },
+  railExitVelocity: { label: "Rail Exit Velocity", unit: "m/s" },
+  staticMargin: { label: "Static Margin", unit: "cal" }
+};
+
+export const COMPONENT_FIELD_LABELS: Partial<Record<NumericComponentField, string>> = {
+  y: "Position (mm)",
+  width: "Width (mm)",
+  height: "Height (mm)",
+  mass: "Mass (kg)",
+  dragCoefficient: "Drag Coefficient",
+  thickness: "Thickness (mm)",
+  finCount: "Fin Count",
+  tipChord: "Tip Chord (mm)",
+  sweepAngle: "Sweep Angle (°)",
+  cantAngle: "Cant Angle (°)",
+  ignitionDelay: "Ignition Delay (s)",
+  radialOffset: "Radial Offset (mm)",
+  radialAngle: "Radial Angle (°)",
+  deploymentAltitude: "Deployment Altitude (m)",
+  deploymentDelay: "Deployment Delay (s)",
+  canopyDiameter: "Canopy Diameter (mm)",
+  inflationTime: "Inflation Time (s)"
+};
+
+export const LAUNCH_FIELD_LABELS: Record<NumericLaunchField, string> = {
+  altitude: "Site Elevation (m)",
+  latitude: "Site Latitude (°)",
+  longitude: "Site Longitude (°)",
+  temperature: "Temperature (°C)",
+  pressure: "Pressure (Pa)",
+  humidity: "Humidity",
+  windSpeed: "Wind Speed (m/s)",
+  windDirection: "Wind Direction (°)",
+  launchAngle: "Launch Angle (°)",
+  launchDirection: "Launch Direction (°)",
+  rodLength: "Rail Length (m)",
+  railFriction: "Rail Friction"
+};
+
+// Fields that are whole numbers in the designer
+const INTEGER_FIELDS: NumericComponentField[] = ["finCount"];
+
+// Tornado bars move every parameter by this fraction of its current value...
+export const SENSITIVITY_STEP = 0.1;
+
+// ...except whole-number counts, which a tenth would round back to the same value, and
+// quantities measured from an arbitrary zero; both move by a fixed amount
+const COMPONENT_SENSITIVITY_STEPS: Partial<Record<NumericComponentField, number>> = {
+  finCount: 1,
+  sweepAngle: 5,
+  cantAngle: 0.5
+};
+const LAUNCH_SENSITIVITY_STEPS: Partial<Record<NumericLaunchField, number>> = {
+  temperature: 5,
+  pressure: 1000,
+  windDirection: 15,
+  launchAngle: 2,
+  launchDirection: 15
+};
+
+// Where a part sits on the airframe and where the pad is aren't margins of the design
+const COMPONENT_SENSITIVITY_EXCLUDED: NumericComponentField[] = ["y", "radialOffset", "radialAngle"];
+const LAUNCH_SENSITIVITY_EXCLUDED: NumericLaunchField[] = ["altitude", "latitude", "longitude"];
+
+// Only apogee, peak speed and rail exit are read back, so coarse output is enough
+const SWEEP_OUTPUT_RATE = 5; // samples per second
+
+export function describeParameter(parameter: SweepParameter, components: RocketComponent[]): string {
+  switch (parameter.kind) {
+    case "component": {
+      const component = components.find(c => c.id === parameter.componentId);
+      return `${component?.name ?? "Component"} ${COMPONENT_FIELD_LABELS[parameter.field] ?? parameter.field}`;
+    }
+    case "launch":
+      return LAUNCH_FIELD_LABELS[parameter.field];
+    case "motor":
+      return "Motor";
+  }
+}
+
+// Numeric fields a component actually uses, so unset optional fields aren't offered
+export function componentFields(component: RocketComponent): NumericComponentField[] {
+  return (Object.keys(COMPONENT_FIELD_LABELS) as NumericComponentField[])
+    .filter(field => typeof component[field] === "number");
+}
+
+export function launchFields(launchConditions: LaunchConditions): NumericLaunchField[] {
+  return (Object.keys(LAUNCH_FIELD_LABELS) as NumericLaunchField[])
+    .filter(field => typeof launchConditions[field] === "number");
+}
+
+export function parameterValue(parameter: SweepParameter, design: SweepDesign): number {
+  switch (parameter.kind) {
+    case "component":
+      return design.components.find(c => c.id === parameter.componentId)?.[parameter.field] ?? 0;
+    case "launch":
+      return design.launchConditions[parameter.field] ?? 0;
+    case "motor":
+      return (firstStageMotor(design) ?? design.motor)?.totalImpulse ?? 0;
+  }
+}
+
+function firstStage(design: SweepDesign): number {
+  return Math.max(0, ...design.components.map(c => c.stage ?? 0));
+}
+
+// Motor named by a first-stage mount, which wins over the design's motor
+function firstStageMotor(design: SweepDesign): MotorData | null {
+  const stage = firstStage(design);
+  const mount = design.components.find(c => c.type === "engine" && (c.stage ?? 0) === stage && findMotor(c.motorType));
+  return mount ? findMotor(mount.motorType) : null;
+}
+
+// The design's motor only fills mounts that don't name one, so a swapped motor goes into
+// every first-stage mount too, or a design whose mounts all name motors would never change
+function withMotor(design: SweepDesign, motor: MotorData | null): SweepDesign {
+  if (!motor) return { ...design, motor };
+  const stage = firstStage(design);
+  return {
+    ...design,
+    motor,
+    components: design.components.map(c => c.type === "engine" && (c.stage ?? 0) === stage
+      ? { ...c, motorType: motor.designation }
+      : c)
+  };
+}
+
+export function applyParameter(design: SweepDesign, parameter: SweepParameter, value: number): SweepDesign {
+  switch (parameter.kind) {
+    case "component": {
+      const fieldValue = INTEGER_FIELDS.includes(parameter.field) ? Math.max(1, Math.round(value)) : value;
+      return {
+        ...design,
+        components: design.components.map(c => c.id === parameter.componentId ? { ...c, [parameter.field]: fieldValue } : c)
+      };
+    }
+    case "launch":
+      return { ...design, launchConditions: { ...design.launchConditions, [parameter.field]: value } };
+    case "motor":
+      // Nearest catalog motor by total impulse
+      return withMotor(design, MOTOR_DATABASE.reduce((best, motor) =>
+        Math.abs(motor.totalImpulse - value) < Math.abs(best.totalImpulse - value) ? motor : best));
+  }
+}
+
+export function evaluateDesign(
+  engine: PhysicsEngine,
+  design: SweepDesign,
+  options: Partial<SimulationOptions> = {}
+): SweepOutputs {
+  const stages = engine.buildStages(design.components, design.motor, design.stageConfigurations);
+  if (stages.length === 0) {
+    return { apogee: 0, maxVelocity: 0, railExitVelocity: 0, staticMargin: 0 };
+  }
+  const [primary] = engine.runStagedSimulation(
+    stages,
+    design.launchConditions,
+    // Every output is settled by apogee, so the descent isn't worth simulating
+    { outputRate: SWEEP_OUTPUT_RATE, stopEvent: "apogee", ...options }
+  );
+
+  return {
+    apogee: Math.max(...primary.data.map(p => p.altitude)),
+    maxVelocity: Math.max(...primary.data.map(p => p.velocity)),
+    railExitVelocity: primary.events.find(e => e.type === "railExit")?.state.velocity ?? 0,
+    staticMargin: stages[stages.length - 1].stack.stabilityMargin
+  };
+}
+
+export function sweepValues(parameter: SweepParameter, start: number, end: number, steps: number): Array<{ value: number; label: string }> {
+  if (parameter.kind === "motor") {
+    // Every catalog motor between the two impulses
+    const low = Math.min(start, end);
+    const high = Math.max(start, end);
+    return MOTOR_DATABASE
+      .filter(m => m.totalImpulse >= low && m.totalImpulse <= high)
+      .sort((a, b) => a.totalImpulse - b.totalImpulse)
+      .map(m => ({ value: m.totalImpulse, label: m.designation }));
+  }
+
+  const count = Math.max(2, Math.round(steps));
+  return Array.from({ length: count }, (_, i) => {
+    const value = start + (end - start) * i / (count - 1);
+    return { value, label: value.toPrecision(4) };
+  });
+}
+
+export function runSweepPoint(
+  engine: PhysicsEngine,
+  design: SweepDesign,
+  parameter: SweepParameter,
+  point: { value: number; label: string }
+): SweepPoint {
+  // Motors sharing an impulse are told apart by designation
+  const swept = parameter.kind === "motor"
+    ? withMotor(design, findMotor(point.label))
+    : applyParameter(design, parameter, point.value);
+  return { ...point, outputs: evaluateDesign(engine, swept) };
+}
+
+// Fixed step for the parameter, or null if it moves by SENSITIVITY_STEP of its value
+function sensitivityStep(parameter: SweepParameter): number | null {
+  switch (parameter.kind) {
+    case "component":
+      return COMPONENT_SENSITIVITY_STEPS[parameter.field] ?? null;
+    case "launch":
+      return LAUNCH_SENSITIVITY_STEPS[parameter.field] ?? null;
+    case "motor":
+      return null;
+  }
+}
+
+// Every numeric parameter of the design that a step can move
+export function sensitivityParameters(design: SweepDesign): SweepParameter[] {
+  // A zero can't be scaled, but it can be offset
+  const movable = (parameter: SweepParameter) =>
+    sensitivityStep(parameter) !== null || parameterValue(parameter, design) !== 0;
+  const component: SweepParameter[] = design.components.flatMap(c =>
+    componentFields(c)
+      .filter(field => !COMPONENT_SENSITIVITY_EXCLUDED.includes(field))
+      .map(field => ({ kind: "component" as const, componentId: c.id, field })));
+  const launch: SweepParameter[] = launchFields(design.launchConditions)
+    .filter(field => !LAUNCH_SENSITIVITY_EXCLUDED.includes(field))
+    .map(field => ({ kind: "launch" as const, field }));
+  return [...component, ...launch].filter(movable);
+}
+
+export function runSensitivity(
+  engine: PhysicsEngine,
+  design: SweepDesign,
+  parameter: SweepParameter
+): SensitivityBar {
+  const value = parameterValue(parameter, design);
+  const step = sensitivityStep(parameter) ?? Math.abs(value) * SENSITIVITY_STEP;
+  const lowValue = value - step;
+  const highValue = value + step;
+  return {
+    parameter,
+    label: describeParameter(parameter, design.components),
+    lowValue,
+    highValue,
+    low: evaluateDesign(engine, applyParameter(design, parameter, lowValue)),
+    high: evaluateDesign(engine, applyParameter(design, parameter, highValue))
+  };
+}
+
+// Change of one output from the baseline at each end, ranked widest swing first
+export function rankSensitivity(
+  bars: SensitivityBar[],
+  baseline: SweepOutputs,
+  output: SweepOutput
+): Array<{ label: string; low: number; high: number }> {
+  return bars
+    .map(bar => ({ label: bar.label, low: bar.low[output] - baseline[output], high: bar.high[output] - baseline[output] }))
+    .sort((a, b) => Math.max(Math.abs(b.low), Math.abs(b.high)) - Math.max(Math.abs(a.low), Math.abs(a.high)));
+}
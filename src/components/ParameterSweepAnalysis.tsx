@@ -0,0 +1,320 @@
+import { useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from "recharts";
+import { SlidersHorizontal, Square, Tornado } from "lucide-react";
+import type { RocketComponent } from "./RocketDesigner";
+import type { LaunchConditions, MotorData, StageConfiguration } from "./PhysicsEngine";
+import {
+  SWEEP_OUTPUTS,
+  SENSITIVITY_STEP,
+  componentFields,
+  describeParameter,
+  launchFields,
+  parameterValue,
+  rankSensitivity,
+  sensitivityParameters,
+  sweepValues,
+  type SensitivityBar,
+  type SweepDesign,
+  type SweepOutput,
+  type SweepOutputs,
+  type SweepParameter,
+  type SweepPoint
+} from "./ParameterSweep";
+import { isCancellation, runInWorkerPool, type SimulationTaskOf } from "./SimulationClient";
+import type { SimulationTaskKind, SimulationTaskResults } from "./SimulationWorker";
+
+interface ParameterSweepAnalysisProps {
+  components: RocketComponent[];
+  selectedMotor: MotorData | null;
+  stageConfigurations: StageConfiguration[];
+  launchConditions: LaunchConditions;
+}
+
+const TORNADO_BARS = 10;
+const DEFAULT_STEPS = 8;
+
+// Select values can only be strings
+const parameterKey = (parameter: SweepParameter) => {
+  switch (parameter.kind) {
+    case "component":
+      return `component:${parameter.componentId}:${parameter.field}`;
+    case "launch":
+      return `launch:${parameter.field}`;
+    case "motor":
+      return "motor";
+  }
+};
+
+// ±20% around the current value, or the whole catalog for motors
+const defaultRange = (parameter: SweepParameter, design: SweepDesign, steps: number) => {
+  const value = parameterValue(parameter, design);
+  return parameter.kind === "motor"
+    ? { start: 0, end: Math.max(value * 4, 100), steps }
+    : { start: +(value * 0.8).toPrecision(4), end: +(value * 1.2).toPrecision(4), steps };
+};
+
+export const ParameterSweepAnalysis = ({
+  components,
+  selectedMotor,
+  stageConfigurations,
+  launchConditions
+}: ParameterSweepAnalysisProps) => {
+  const design: SweepDesign = { components, motor: selectedMotor, stageConfigurations, launchConditions };
+  const parameters: SweepParameter[] = [
+    ...components.flatMap(c => componentFields(c).map(field => ({ kind: "component" as const, componentId: c.id, field }))),
+    ...launchFields(launchConditions).map(field => ({ kind: "launch" as const, field })),
+    { kind: "motor" }
+  ];
+
+  const [parameterId, setParameterId] = useState("launch:launchAngle");
+  const [range, setRange] = useState(() => defaultRange({ kind: "launch", field: "launchAngle" }, design, DEFAULT_STEPS));
+  const [sweep, setSweep] = useState<SweepPoint[]>([]);
+  const [sweptLabel, setSweptLabel] = useState("");
+  const [output, setOutput] = useState<SweepOutput>("apogee");
+  const [baseline, setBaseline] = useState<SweepOutputs | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityBar[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const parameter = parameters.find(p => parameterKey(p) === parameterId) ?? parameters[0];
+
+  const stopRuns = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => stopRuns, []);
+
+  const selectParameter = (id: string) => {
+    setParameterId(id);
+    const next = parameters.find(p => parameterKey(p) === id);
+    if (next) setRange(defaultRange(next, design, range.steps));
+  };
+
+  // Spreads the simulations over the worker pool, showing each result as it arrives.
+  // Resolves false if the runs were stopped or failed.
+  const runTasks = async <K extends SimulationTaskKind,>(
+    tasks: Array<SimulationTaskOf<K>>,
+    onResults: (results: Array<SimulationTaskResults[K]>) => void
+  ) => {
+    stopRuns();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const results: Array<SimulationTaskResults[K]> = [];
+    setError(null);
+    setProgress({ done: 0, total: tasks.length });
+    try {
+      onResults(await runInWorkerPool(tasks, (result, index) => {
+        results[index] = result;
+        onResults(results.filter(Boolean));
+        setProgress({ done: results.filter(Boolean).length, total: tasks.length });
+      }, controller.signal));
+      return true;
+    } catch (error) {
+      if (!isCancellation(error)) setError(error instanceof Error ? error.message : String(error));
+      return false;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const startSweep = () => {
+    if (!parameter) return;
+    const points = sweepValues(parameter, range.start, range.end, range.steps);
+    setSweep([]);
+    setSweptLabel(describeParameter(parameter, components));
+    runTasks(points.map(point => ({ kind: "sweepPoint" as const, design, parameter, point })), setSweep);
+  };
+
+  const startSensitivity = async () => {
+    setBaseline(null);
+    setSensitivity([]);
+    if (!await runTasks([{ kind: "evaluate" as const, design }], ([outputs]) => setBaseline(outputs ?? null))) return;
+    runTasks(sensitivityParameters(design).map(p => ({ kind: "sensitivity" as const, design, parameter: p })), setSensitivity);
+  };
+
+  const sweepData = sweep.map(point => ({ label: point.label, value: point.value, ...point.outputs }));
+  const isMotorSweep = parameter?.kind === "motor";
+  const tornado = baseline ? rankSensitivity(sensitivity, baseline, output).slice(0, TORNADO_BARS) : [];
+  const { unit } = SWEEP_OUTPUTS[output];
+
+  if (components.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-4">
+        <SlidersHorizontal className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Parameter Sweep</h3>
+      </div>
+
+      <div className="space-y-2 mb-3">
+        <div>
+          <Label className="text-xs">Parameter</Label>
+          <Select value={parameter ? parameterKey(parameter) : ""} onValueChange={selectParameter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {parameters.map(p => (
+                <SelectItem key={parameterKey(p)} value={parameterKey(p)}>
+                  {describeParameter(p, components)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <Label className="text-xs">{isMotorSweep ? "From (N·s)" : "From"}</Label>
+            <Input
+              type="number"
+              value={range.start}
+              onChange={(e) => setRange(prev => ({ ...prev, start: parseFloat(e.target.value) || 0 }))}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">{isMotorSweep ? "To (N·s)" : "To"}</Label>
+            <Input
+              type="number"
+              value={range.end}
+              onChange={(e) => setRange(prev => ({ ...prev, end: parseFloat(e.target.value) || 0 }))}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Steps</Label>
+            <Input
+              type="number"
+              value={range.steps}
+              onChange={(e) => setRange(prev => ({ ...prev, steps: parseInt(e.target.value) || 0 }))}
+              min="2"
+              max="50"
+              disabled={isMotorSweep}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <Button size="sm" onClick={startSweep} disabled={!!progress}>
+          <SlidersHorizontal className="h-4 w-4 mr-1" />
+          Run Sweep
+        </Button>
+        <Button size="sm" variant="outline" onClick={startSensitivity} disabled={!!progress}>
+          <Tornado className="h-4 w-4 mr-1" />
+          Sensitivity
+        </Button>
+        {progress && (
+          <Button variant="outline" size="sm" onClick={stopRuns}>
+            <Square className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+        )}
+      </div>
+      {progress && <Progress value={(progress.done / Math.max(1, progress.total)) * 100} className="h-2 mb-4" />}
+      {error && <p className="text-xs text-destructive mb-4">Simulation failed: {error}</p>}
+
+      {sweepData.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          {(Object.keys(SWEEP_OUTPUTS) as SweepOutput[]).map(key => (
+            <div key={key} className="h-36">
+              <p className="text-xs text-muted-foreground mb-1">
+                {SWEEP_OUTPUTS[key].label} ({SWEEP_OUTPUTS[key].unit}) vs {sweptLabel}
+              </p>
+              <ResponsiveContainer width="100%" height="85%">
+                <LineChart data={sweepData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey={isMotorSweep ? "label" : "value"}
+                    type={isMotorSweep ? "category" : "number"}
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={(value: number | string) => typeof value === "number" ? value.toPrecision(3) : value}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={10}
+                  />
+                  <YAxis
+                    domain={["auto", "auto"]}
+                    tickFormatter={(value: number) => value.toFixed(key === "staticMargin" ? 1 : 0)}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={10}
+                  />
+                  <Tooltip formatter={(value: number) => [`${value.toFixed(2)} ${SWEEP_OUTPUTS[key].unit}`, SWEEP_OUTPUTS[key].label]} />
+                  <Line type="monotone" dataKey={key} stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 2 }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tornado.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-xs text-muted-foreground">
+              Change in {SWEEP_OUTPUTS[output].label.toLowerCase()} for ±{SENSITIVITY_STEP * 100}% on each parameter, or a fixed step for temperature, pressure and angles
+            </p>
+            <Select value={output} onValueChange={(value) => setOutput(value as SweepOutput)}>
+              <SelectTrigger className="w-40 h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SWEEP_OUTPUTS) as SweepOutput[]).map(key => (
+                  <SelectItem key={key} value={key}>{SWEEP_OUTPUTS[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={tornado} layout="vertical" stackOffset="sign">
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  type="number"
+                  tickFormatter={(value: number) => value.toFixed(output === "staticMargin" ? 2 : 0)}
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={10}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="label"
+                  width={130}
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={10}
+                />
+                <Tooltip formatter={(value: number, name: string) => [`${value >= 0 ? "+" : ""}${value.toFixed(2)} ${unit}`, name]} />
+                <Legend />
+                <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                <Bar dataKey="low" stackId="swing" fill="hsl(var(--accent))" name="Lowered" />
+                <Bar dataKey="high" stackId="swing" fill="hsl(var(--primary))" name="Raised" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
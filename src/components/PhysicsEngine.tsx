@@ -1,33 +1,195 @@
 // Advanced Physics Engine for Professional Rocket Simulation
 // Based on OpenRocket-style calculations
 
+import type { RocketComponent } from "./RocketDesigner";
+import {
+  type Vector3,
+  type Quaternion,
+  ZERO_VECTOR,
+  vec,
+  add,
+  subtract,
+  scale,
+  dot,
+  cross,
+  length,
+  quatConjugate,
+  quatDerivative,
+  quatFromTo,
+  quatNormalize,
+  quatRotate
+} from "./VectorMath";
+import {
+  type DerivativeFunction,
+  type IntegratorType,
+  eulerStep,
+  rk4Step,
+  dormandPrinceStep,
+  errorNorm
+} from "./Integrators";
+import {
+  type ImpulseCheck,
+  type ThrustInterpolation,
+  interpolateThrust,
+  integrateThrust,
+  checkImpulseConsistency
+} from "./ThrustCurve";
+import { WindModel, type WindProfile } from "./WindModel";
+import { Atmosphere } from "./Atmosphere";
+import {
+  DEFAULT_FIN_PROFILE,
+  DEFAULT_SURFACE_FINISH,
+  SURFACE_ROUGHNESS,
+  calculateDragCoefficient,
+  type BodySegment,
+  type DragGeometry,
+  type FinSetGeometry
+} from "./DragModel";
+import {
+  DEFAULT_NOSE_SHAPE,
+  calculateNormalForceAtMach,
+  calculateRollMoments,
+  finCountFactor,
+  noseRadius
+} from "./Aerodynamics";
+import {
+  DEFAULT_MATERIAL,
+  MATERIALS,
+  combineMassProperties,
+  cylinderMassProperties,
+  finSetMassProperties,
+  offsetMassProperties,
+  scaleMassProperties,
+  shellMassProperties,
+  type ComponentMassProperties,
+  type MassProperties
+} from "./MassModel";
+import { findMotor } from "./MotorCatalog";
+import { earthRotation, launchSite, localToGeodetic, normalGravity, type GeodeticPosition } from "./Geodesy";
+
 export interface FlightDataPoint {
   time: number;
   altitude: number;
-  velocity: number;
-  acceleration: number;
+  velocity: number; // total speed over ground, m/s
+  acceleration: number; // magnitude of the kinematic acceleration, m/s²
   mass: number;
   thrust: number;
   drag: number;
+  dragCoefficient: number; // total Cd at this point, referenced to RocketPhysics.referenceArea
   mach: number;
-  stability: number;
-  angleOfAttack: number;
+  stability: number; // static margin in calibers at this point
+  centerOfGravity: number; // m aft of the nose tip
+  centerOfPressure: number; // m aft of the nose tip
+  correctiveMomentCoefficient: number; // C1, restoring pitch moment per radian of angle of attack, N·m/rad
+  aerodynamicDampingCoefficient: number; // C2A, pitch damping moment per rad/s from the lifting surfaces, N·m·s/rad
+  propulsiveDampingCoefficient: number; // C2R, jet damping from the exhaust, N·m·s/rad
+  dampingRatio: number; // of the pitch oscillation, 0 when there is no restoring moment
+  naturalFrequency: number; // Hz, undamped pitch oscillation
+  rollRate: number; // Hz, spin about the body axis
+  angleOfAttack: number; // degrees
   verticalVelocity: number;
-  lateralVelocity: number;
-  position: { x: number; y: number; z: number };
+  lateralVelocity: number; // horizontal speed over ground, m/s
+  position: { x: number; y: number; z: number }; // world frame, x = north, y = up, z = east
+  latitude: number; // degrees, of the position
+  longitude: number; // degrees, of the position
+  velocityVector: Vector3; // world frame, m/s
+  attitude: Quaternion; // body -> world rotation, body x-axis points at the nose
+  angularVelocity: Vector3; // body frame, rad/s
+  onRail: boolean; // still guided by the launch rail
+  ejected: boolean; // motor ejection charge has fired
+  deploymentTimes: Array<number | null>; // per RocketPhysics.recoveryDevices entry, null until it opens
+  recoveryConfiguration: RecoveryRole | null; // largest recovery device open
+  descentRate: number; // m/s, positive while descending
+  drift: number; // horizontal distance from the pad, m
+  event?: FlightEventType; // set on the point at which a flight event happens
+}
+
+export type FlightEventType =
+  | 'ignition'
+  | 'liftoff'
+  | 'railExit'
+  | 'burnout'
+  | 'separation'
+  | 'apogee'
+  | 'ejection'
+  | 'deployment'
+  | 'landing'
+  | 'simulationEnd';
+
+export const FLIGHT_EVENT_LABELS: Record<FlightEventType, string> = {
+  ignition: 'Ignition',
+  liftoff: 'Liftoff',
+  railExit: 'Rail Exit',
+  burnout: 'Burnout',
+  separation: 'Separation',
+  apogee: 'Apogee',
+  ejection: 'Ejection',
+  deployment: 'Deployment',
+  landing: 'Ground Hit',
+  simulationEnd: 'Simulation End'
+};
+
+export interface FlightEvent {
+  type: FlightEventType;
+  time: number; // s
+  source?: string; // motor, recovery device or stage the event belongs to
+  state: FlightDataPoint; // snapshot at the event
+}
+
+export interface AerodynamicSurface {
+  name: string;
+  position: number; // subsonic CP of the surface, m aft of the nose tip
+  normalForceSlope: number; // subsonic CNα per radian, referenced to RocketPhysics.referenceArea
+  fins?: FinSetGeometry; // fin planform, for the compressibility corrections
+  leadingEdge?: number; // m aft of the nose tip, fin root leading edge
+  planformArea?: number; // m², side-view area of the body, which lifts only at angle of attack
+}
+
+export type RecoveryRole = 'drogue' | 'main';
+
+export type DeploymentTrigger = 'apogee' | 'ejection' | 'altitude' | 'timer';
+
+export interface RecoveryDevice {
+  name: string;
+  role: RecoveryRole;
+  trigger: DeploymentTrigger;
+  diameter: number; // canopy diameter, m
+  dragCoefficient: number;
+  inflationTime: number; // s from opening to full drag area
+  deploymentAltitude: number; // m above the pad, altitude trigger opens on the way down through it
+  deploymentDelay: number; // s after ignition, timer trigger
+}
+
+export interface MotorMount {
+  name: string; // engine component the motor sits in
+  motorData: MotorData;
+  position: number; // m aft of the nose tip, center of the motor
+  length: number; // m
+  diameter: number; // m, nozzle exit fills this much of the base while burning
+  radialOffset: number; // m off the centerline, for outboard cluster motors
+  radialAngle: number; // radians about the body axis, from the body y-axis
+  ignitionDelay: number; // s after its stage lights
+  failed: boolean; // never ignites
 }
 
 export interface RocketPhysics {
   totalMass: number;
   dryMass: number;
   propellantMass: number;
-  centerOfGravity: number;
-  centerOfPressure: number;
+  dryMassProperties: MassProperties; // airframe, inert motors and motor casings; propellant is added per step
+  centerOfGravity: number; // m aft of the nose tip
+  centerOfPressure: number; // m aft of the nose tip
   stabilityMargin: number;
-  dragCoefficient: number;
+  dragGeometry: DragGeometry; // component buildup, evaluated against the flow every step
+  dragFactor: number; // multiplies the buildup Cd; 1 except in dispersion runs
   referenceArea: number;
   length: number;
   diameter: number;
+  aerodynamicSurfaces: AerodynamicSurface[];
+  longitudinalInertia: number; // pitch/yaw moment of inertia about the CG at liftoff, kg·m²
+  rotationalInertia: number; // roll moment of inertia about the body axis at liftoff, kg·m²
+  recoveryDevices: RecoveryDevice[];
+  motors: MotorMount[]; // motors burning in this configuration; upper-stage motors are dead mass
 }
 
 export interface MotorData {
@@ -42,28 +204,166 @@ export interface MotorData {
   delay: number;
 }
 
+export type SeparationTrigger = 'burnout' | 'timer';
+
+export interface StageConfiguration {
+  name: string;
+  separationTrigger: SeparationTrigger; // when this stage drops away from the stages above it
+  separationDelay: number; // s after burnout, or after ignition for the timer
+  ignitionDelay: number; // s after the stage below separates before this stage's motor lights
+}
+
+export interface StagePhysics {
+  configuration: StageConfiguration;
+  stack: RocketPhysics; // this stage and everything above it, with this stage's motor burning
+  body: RocketPhysics; // this stage alone once it has separated
+}
+
+export interface MotorImpulseMismatch extends ImpulseCheck {
+  designation: string;
+}
+
+export interface FlightSimulation {
+  data: FlightDataPoint[];
+  events: FlightEvent[]; // in time order
+  impulseMismatches?: MotorImpulseMismatch[]; // thrust curves off their rated impulse; on the primary result only
+}
+
+export interface FlightTrajectory extends FlightSimulation {
+  name: string;
+}
+
+// Receives the upper stage's output points as they are integrated
+export type FlightProgressCallback = (points: FlightDataPoint[]) => void;
+
 export interface LaunchConditions {
-  altitude: number;
-  temperature: number;
-  pressure: number;
-  humidity: number;
-  windSpeed: number;
-  windDirection: number;
-  launchAngle: number;
-  launchDirection: number;
-  rodLength: number;
+  altitude: number; // m, launch site elevation above mean sea level
+  latitude: number; // degrees, positive north
+  longitude: number; // degrees, positive east
+  coriolis?: boolean; // include the Coriolis force, for high or long flights
+  temperature: number; // °C at the launch site
+  pressure: number; // Pa at the launch site
+  humidity: number; // relative humidity, 0-1
+  windSpeed: number; // m/s, at the wind profile's reference height
+  windDirection: number; // degrees clockwise from north the wind blows from
+  windProfile?: Partial<WindProfile>;
+  launchAngle: number; // degrees above the horizon
+  launchDirection: number; // degrees clockwise from north
+  rodLength: number; // m
+  railFriction?: number; // friction coefficient between rail and launch lugs
 }
 
-export class PhysicsEngine {
-  private gravity = 9.81; // m/s²
-  private airDensitySeaLevel = 1.225; // kg/m³
-  private gasConstant = 287; // J/(kg·K)
-  private temperatureLapseRate = 0.0065; // K/m
+// Events a flight can be cut short at; separation belongs to the staging loop, not one segment
+export type StopEvent = 'railExit' | 'burnout' | 'apogee' | 'ejection' | 'deployment' | 'landing';
+
+// 'rate' records points at a fixed rate; 'change' records an integration step once
+// the flight has moved on by one of the change thresholds since the last point
+export type OutputSampling = 'rate' | 'change';
+
+export interface OutputChangeThresholds {
+  altitude: number; // m
+  velocity: number; // m/s
+  acceleration: number; // m/s²
+}
 
-  calculateAirDensity(altitude: number, temperature: number): number {
-    const temperatureAtAltitude = temperature - this.temperatureLapseRate * altitude;
-    const pressure = 101325 * Math.pow(1 - 0.0065 * altitude / 288.15, 5.257);
-    return pressure / (this.gasConstant * (temperatureAtAltitude + 273.15));
+export interface SimulationOptions {
+  integrator: IntegratorType;
+  timeStep: number; // fixed step for Euler/RK4, initial step for RK45, s
+  tolerance: number; // RK45 local error tolerance (relative and absolute)
+  outputSampling: OutputSampling;
+  outputRate: number; // recorded data points per second
+  outputChange: OutputChangeThresholds;
+  stopEvent: StopEvent; // first occurrence ends the flight; it always ends on landing or at maxTime
+  maxTime: number; // s
+  thrustInterpolation: ThrustInterpolation;
+  impulseTolerance: number; // allowed fractional mismatch between curve and rated impulse
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  integrator: 'rk45',
+  timeStep: 0.01,
+  tolerance: 1e-6,
+  outputSampling: 'rate',
+  outputRate: 20,
+  outputChange: { altitude: 5, velocity: 1, acceleration: 2 },
+  stopEvent: 'landing',
+  maxTime: 300,
+  thrustInterpolation: 'linear',
+  impulseTolerance: 0.1
+};
+
+interface SimulationContext {
+  rocketPhysics: RocketPhysics;
+  ignitionTime: number; // s, when the stage lights
+  ejectionTime: number; // s, Infinity while upper stages still sit on top of the motor
+  launchConditions: LaunchConditions;
+  settings: SimulationOptions;
+  wind: WindModel;
+  atmosphere: Atmosphere;
+  site: GeodeticPosition; // origin of the world frame
+  earthRotation: Vector3; // rad/s in the world frame, zero unless Coriolis is modeled
+}
+
+interface StateTrigger {
+  type: FlightEventType;
+  hasOccurred: (state: FlightDataPoint) => boolean;
+  apply: (state: FlightDataPoint) => FlightDataPoint;
+}
+
+interface StateDerivative {
+  velocity: Vector3;
+  acceleration: Vector3;
+  attitudeRate: Quaternion;
+  angularAcceleration: Vector3;
+  massRate: number;
+}
+
+interface PropulsionEvaluation {
+  thrust: number;
+  massRate: number;
+  moment: Vector3; // body frame, from off-axis motors
+  exhaustArea: number; // m², base area covered by burning motors
+  jetDamping: number; // propulsive damping moment coefficient about the CG, N·m·s/rad
+}
+
+interface PitchDynamics {
+  correctiveMoment: number; // N·m/rad
+  aerodynamicDamping: number; // N·m·s/rad
+  propulsiveDamping: number; // N·m·s/rad
+  longitudinalInertia: number; // kg·m²
+}
+
+interface DynamicsEvaluation {
+  derivative: StateDerivative;
+  thrust: number;
+  drag: number;
+  dragCoefficient: number;
+  mach: number;
+  angleOfAttack: number;
+  pitch: PitchDynamics;
+  centerOfGravity: number; // m aft of the nose tip, with the propellant left
+  centerOfPressure: number; // m aft of the nose tip, at the current Mach and angle of attack
+}
+
+const NO_PITCH_DYNAMICS: PitchDynamics = {
+  correctiveMoment: 0,
+  aerodynamicDamping: 0,
+  propulsiveDamping: 0,
+  longitudinalInertia: 0
+};
+const BODY_AXIS: Vector3 = { x: 1, y: 0, z: 0 };
+const MIN_TIME_STEP = 1e-6; // s
+const MAX_TIME_STEP = 0.1; // s
+const EVENT_TIME_TOLERANCE = 1e-6; // s
+const DEFAULT_CANOPY_DIAMETER = 300; // mm
+const DEFAULT_INFLATION_TIME = 0.5; // s
+const DEFAULT_WALL_THICKNESS = 2; // mm
+const DEFAULT_FIN_THICKNESS = 3; // mm
+
+export class PhysicsEngine {
+  calculateAirDensity(altitude: number, launchConditions: LaunchConditions): number {
+    // altitude is measured above the launch site
+    return new Atmosphere(launchConditions).getProperties(altitude).density;
   }
 
   calculateDragForce(velocity: number, airDensity: number, dragCoefficient: number, referenceArea: number): number {
@@ -75,140 +375,451 @@ export class PhysicsEngine {
     return caliber;
   }
 
-  calculateCenterOfPressure(components: any[]): number {
-    // Simplified Barrowman equations for center of pressure
-    let totalCpContribution = 0;
-    let totalArea = 0;
-
-    components.forEach(component => {
-      let cpContribution = 0;
-      let area = 0;
-
-      switch (component.type) {
-        case 'nosecone':
-          // Nose cone CP is at 2/3 of length from tip
-          cpContribution = component.y + (2/3) * component.height;
-          area = Math.PI * Math.pow(component.width / 2, 2);
-          break;
-        case 'fins':
-          // Fin CP is at the fin location
-          cpContribution = component.y + component.height / 2;
-          area = component.width * component.height; // Simplified fin area
-          break;
-        case 'bodytube':
-          // Body tube has minimal CP contribution
-          cpContribution = component.y + component.height / 2;
-          area = component.width * component.height * 0.1; // Minimal contribution
-          break;
+  calculateAerodynamicSurfaces(components: RocketComponent[]): AerodynamicSurface[] {
+    // Barrowman normal force slopes, positions in metres aft of the nose tip
+    if (components.length === 0) return [];
+
+    const noseTip = Math.min(...components.map(c => c.y));
+    const referenceDiameter = this.calculateReferenceDiameter(components);
+    const segments = this.calculateBodySegments(components);
+    const surfaces: AerodynamicSurface[] = [];
+
+    segments.forEach(segment => {
+      const { position, length, foreDiameter, aftDiameter } = segment;
+      if (segment.kind === 'nose') {
+        // CNα = 2 at the base; slender-body CP lies the nose volume over its base area ahead of the base
+        const radius = aftDiameter / 2;
+        const volume = this.integrateNose(segment, (r) => Math.PI * r * r);
+        const baseArea = Math.PI * radius * radius;
+        surfaces.push({
+          name: segment.name,
+          position: position + (baseArea > 0 ? length - volume / baseArea : (2 / 3) * length),
+          normalForceSlope: 2 * Math.pow(aftDiameter / referenceDiameter, 2)
+        });
+      } else if (segment.kind === 'transition' && Math.abs(aftDiameter - foreDiameter) > 1e-9) {
+        // Shoulders add lift and boattails take it away
+        const ratio = foreDiameter / aftDiameter;
+        surfaces.push({
+          name: segment.name,
+          position: position + length / 3 * (1 + (1 - ratio) / (1 - ratio * ratio)),
+          normalForceSlope: 2 * (Math.pow(aftDiameter / referenceDiameter, 2) - Math.pow(foreDiameter / referenceDiameter, 2))
+        });
       }
+    });
+
+    components.filter(c => c.type === 'fins').forEach(component => {
+      const leadingEdge = (component.y - noseTip) / 1000;
+      const fins = this.calculateFinGeometry(component, this.bodyDiameterAt(segments, leadingEdge, referenceDiameter));
+      const { count, bodyRadius, span, rootChord, tipChord, sweepAngle } = fins;
+      const chordSum = rootChord + tipChord;
+      if (span <= 0 || chordSum <= 0) return;
+
+      // Trapezoidal fins: midchord line, fin-body interference and the fin-count correction
+      const sweepLength = span * Math.tan(sweepAngle);
+      const midChordLine = Math.sqrt(span * span + Math.pow(sweepLength + (tipChord - rootChord) / 2, 2));
+      const finFactor = (4 * count * Math.pow(span / referenceDiameter, 2)) /
+        (1 + Math.sqrt(1 + Math.pow(2 * midChordLine / chordSum, 2)));
+      const interference = 1 + bodyRadius / (span + bodyRadius);
+      const cpOffset = (sweepLength * (rootChord + 2 * tipChord)) / (3 * chordSum) +
+        (chordSum - (rootChord * tipChord) / chordSum) / 6;
 
-      totalCpContribution += cpContribution * area;
-      totalArea += area;
+      surfaces.push({
+        name: component.name,
+        position: leadingEdge + cpOffset,
+        normalForceSlope: finFactor * interference * finCountFactor(count),
+        fins,
+        leadingEdge
+      });
     });
 
-    return totalArea > 0 ? totalCpContribution / totalArea : 0;
+    // Body lift acts at the centroid of the side view and only once the rocket is at an angle
+    const planformArea = segments.reduce((sum, s) => sum + this.segmentPlanform(s).area, 0);
+    if (planformArea > 0) {
+      surfaces.push({
+        name: 'Body lift',
+        position: segments.reduce((sum, s) => {
+          const planform = this.segmentPlanform(s);
+          return sum + planform.area * planform.centroid;
+        }, 0) / planformArea,
+        normalForceSlope: 0,
+        planformArea
+      });
+    }
+
+    return surfaces;
   }
 
-  calculateCenterOfGravity(components: any[]): number {
-    const totalMass = components.reduce((sum, comp) => sum + comp.mass, 0);
-    if (totalMass === 0) return 0;
+  calculateCenterOfPressure(components: RocketComponent[]): number {
+    // Barrowman CP at zero angle of attack, in the same canvas coordinates as calculateCenterOfGravity
+    const surfaces = this.calculateAerodynamicSurfaces(components);
+    const referenceDiameter = this.calculateReferenceDiameter(components);
+    const { normalForceSlope, centerOfPressure } = calculateNormalForceAtMach(
+      surfaces,
+      0,
+      Math.PI * Math.pow(referenceDiameter / 2, 2)
+    );
+    if (normalForceSlope === 0) return 0;
 
-    const totalMoment = components.reduce((sum, comp) => {
-      const componentCg = comp.y + comp.height / 2;
-      return sum + comp.mass * componentCg;
-    }, 0);
+    const noseTip = Math.min(...components.map(c => c.y));
+    return noseTip + centerOfPressure * 1000;
+  }
+
+  calculateCenterOfGravity(components: RocketComponent[]): number {
+    // Airframe CG without motors, in canvas coordinates
+    const { mass, centerOfGravity } = combineMassProperties(this.calculateComponentMassProperties(components));
+    if (mass === 0) return 0;
 
-    return totalMoment / totalMass;
+    const noseTip = Math.min(...components.map(c => c.y));
+    return noseTip + centerOfGravity * 1000;
   }
 
-  simulateFlightStep(
-    currentState: FlightDataPoint,
+  calculateComponentMassProperties(components: RocketComponent[]): ComponentMassProperties[] {
+    // Each part's shape sets how its mass is spread; the design's mass figure sets how much there is
+    if (components.length === 0) return [];
+
+    const noseTip = Math.min(...components.map(c => c.y));
+    const referenceDiameter = this.calculateReferenceDiameter(components);
+    const bodyParts = this.calculateBodySegmentParts(components);
+    const segments = bodyParts.map(p => p.segment);
+
+    return components.map(comp => {
+      const density = (MATERIALS[comp.material ?? DEFAULT_MATERIAL] ?? MATERIALS[DEFAULT_MATERIAL]).density;
+      const front = (comp.y - noseTip) / 1000;
+      const length = comp.height / 1000;
+      const radius = comp.width / 2000;
+      const wall = (comp.thickness ?? DEFAULT_WALL_THICKNESS) / 1000;
+
+      let shape: MassProperties | null = null;
+      const bodyPart = bodyParts.find(p => p.component === comp);
+      if (bodyPart) {
+        shape = shellMassProperties(bodyPart.segment, wall, density);
+      } else if (comp.type === 'fins') {
+        const fins = this.calculateFinGeometry(comp, this.bodyDiameterAt(segments, front, referenceDiameter));
+        shape = finSetMassProperties(fins, front, density);
+      } else if (comp.type === 'engine') {
+        // Motor mount tube; the motor itself is added by buildRocketPhysics
+        shape = cylinderMassProperties(
+          density * Math.PI * (radius * radius - Math.pow(Math.max(0, radius - wall), 2)) * length,
+          front + length / 2, length, radius, Math.max(0, radius - wall)
+        );
+      }
+
+      // Packed recovery devices and mass items are solid cylinders filling their outline
+      const materialMass = shape ? shape.mass : null;
+      const distribution = shape && shape.mass > 0 ? shape : cylinderMassProperties(1, front + length / 2, length, radius);
+
+      return {
+        id: comp.id,
+        name: comp.name,
+        materialMass,
+        ...scaleMassProperties(distribution, comp.mass)
+      };
+    });
+  }
+
+  calculatePropellantRemaining(motorData: MotorData, motorTime: number, method: ThrustInterpolation = 'linear'): number {
+    // Propellant burns in proportion to the impulse delivered, as in calculatePropellantFlowRate
+    if (motorTime <= 0) return motorData.propellantMass;
+    const curveImpulse = integrateThrust(motorData.thrustCurve, Infinity, method);
+    if (curveImpulse <= 0) return motorData.propellantMass;
+    const burnt = Math.min(1, integrateThrust(motorData.thrustCurve, motorTime, method) / curveImpulse);
+    return motorData.propellantMass * (1 - burnt);
+  }
+
+  calculateMassProperties(
     rocketPhysics: RocketPhysics,
-    motorData: MotorData | null,
-    launchConditions: LaunchConditions,
-    deltaTime: number
-  ): FlightDataPoint {
-    const { time, altitude, velocity, mass } = currentState;
-    
-    // Calculate current thrust
-    let thrust = 0;
-    if (motorData && time <= motorData.burnTime) {
-      // Interpolate thrust from curve
-      const thrustPoint = motorData.thrustCurve.find(point => 
-        Math.abs(point.time - time) < deltaTime / 2
+    elapsed: number = 0, // s since the stage lit
+    method: ThrustInterpolation = 'linear'
+  ): MassProperties {
+    // Dry rocket plus the propellant left in each motor, as a solid grain filling the motor
+    const grains = rocketPhysics.motors.map(mount => {
+      const propellant = mount.failed
+        ? mount.motorData.propellantMass
+        : this.calculatePropellantRemaining(mount.motorData, elapsed - mount.ignitionDelay, method);
+      return offsetMassProperties(
+        cylinderMassProperties(propellant, mount.position, mount.length, mount.diameter / 2),
+        mount.radialOffset
       );
-      thrust = thrustPoint ? thrustPoint.thrust : 0;
+    });
+    return combineMassProperties([rocketPhysics.dryMassProperties, ...grains]);
+  }
+
+  calculateFinGeometry(component: RocketComponent, bodyDiameter: number): FinSetGeometry {
+    // Fin sets are drawn as their tip-to-tip width by their root chord
+    const span = component.width / 1000 > bodyDiameter
+      ? (component.width / 1000 - bodyDiameter) / 2
+      : component.width / 2000;
+    const rootChord = component.height / 1000;
+    return {
+      name: component.name,
+      count: component.finCount ?? 3,
+      rootChord,
+      tipChord: component.tipChord !== undefined ? component.tipChord / 1000 : rootChord,
+      span,
+      sweepAngle: (component.sweepAngle ?? 0) * Math.PI / 180,
+      cantAngle: (component.cantAngle ?? 0) * Math.PI / 180,
+      thickness: (component.thickness ?? DEFAULT_FIN_THICKNESS) / 1000,
+      bodyRadius: bodyDiameter / 2,
+      profile: component.finProfile ?? DEFAULT_FIN_PROFILE,
+      roughness: SURFACE_ROUGHNESS[component.surfaceFinish ?? DEFAULT_SURFACE_FINISH]
+    };
+  }
+
+  calculateBodySegments(components: RocketComponent[]): BodySegment[] {
+    return this.calculateBodySegmentParts(components).map(p => p.segment);
+  }
+
+  private calculateBodySegmentParts(components: RocketComponent[]): Array<{ component: RocketComponent; segment: BodySegment }> {
+    // Walk the airframe nose to tail; transitions blend between their neighbours' diameters
+    if (components.length === 0) return [];
+
+    const noseTip = Math.min(...components.map(c => c.y));
+    const bodyParts = components
+      .filter(c => c.type === 'nosecone' || c.type === 'bodytube' || c.type === 'transition')
+      .sort((a, b) => a.y - b.y);
+
+    const segments: BodySegment[] = [];
+    bodyParts.forEach((part, i) => {
+      const diameter = part.width / 1000;
+      const previous = segments[segments.length - 1];
+      const next = bodyParts[i + 1];
+      segments.push({
+        name: part.name,
+        kind: part.type === 'nosecone' ? 'nose' : part.type === 'bodytube' ? 'body' : 'transition',
+        shape: part.type === 'nosecone' ? part.noseShape ?? DEFAULT_NOSE_SHAPE : undefined,
+        position: (part.y - noseTip) / 1000,
+        length: part.height / 1000,
+        foreDiameter: part.type === 'nosecone' ? 0 : part.type === 'transition' && previous ? previous.aftDiameter : diameter,
+        aftDiameter: part.type === 'transition' && next ? next.width / 1000 : diameter,
+        roughness: SURFACE_ROUGHNESS[part.surfaceFinish ?? DEFAULT_SURFACE_FINISH]
+      });
+    });
+    return bodyParts.map((component, i) => ({ component, segment: segments[i] }));
+  }
+
+  private bodyDiameterAt(segments: BodySegment[], position: number, fallback: number): number {
+    const segment = segments.find(s => position >= s.position && position <= s.position + s.length);
+    if (!segment) return fallback;
+    if (segment.kind === 'nose') {
+      return 2 * noseRadius(segment.shape ?? DEFAULT_NOSE_SHAPE, position - segment.position, segment.length, segment.aftDiameter / 2);
     }
+    const fraction = segment.length > 0 ? (position - segment.position) / segment.length : 0;
+    return segment.foreDiameter + (segment.aftDiameter - segment.foreDiameter) * fraction;
+  }
 
-    // Calculate air density at current altitude
-    const airDensity = this.calculateAirDensity(
-      launchConditions.altitude + altitude,
-      launchConditions.temperature
-    );
+  private integrateNose(segment: BodySegment, integrand: (radius: number, x: number) => number): number {
+    // Midpoint rule along the nose profile
+    const steps = 100;
+    const dx = segment.length / steps;
+    let total = 0;
+    for (let i = 0; i < steps; i++) {
+      const x = (i + 0.5) * dx;
+      total += integrand(noseRadius(segment.shape ?? DEFAULT_NOSE_SHAPE, x, segment.length, segment.aftDiameter / 2), x) * dx;
+    }
+    return total;
+  }
 
-    // Calculate drag force
-    const dragForce = this.calculateDragForce(
-      Math.abs(velocity),
-      airDensity,
-      rocketPhysics.dragCoefficient,
-      rocketPhysics.referenceArea
-    );
+  private segmentPlanform(segment: BodySegment): { area: number; centroid: number } {
+    // Side-view area and its centroid, m aft of the nose tip
+    if (segment.kind === 'nose') {
+      const area = this.integrateNose(segment, (r) => 2 * r);
+      const moment = this.integrateNose(segment, (r, x) => 2 * r * x);
+      return { area, centroid: segment.position + (area > 0 ? moment / area : segment.length / 2) };
+    }
+    const { foreDiameter: d1, aftDiameter: d2, length } = segment;
+    const area = (d1 + d2) / 2 * length;
+    const centroid = d1 + d2 > 0 ? length * (d1 + 2 * d2) / (3 * (d1 + d2)) : length / 2;
+    return { area, centroid: segment.position + centroid };
+  }
 
-    // Apply drag in opposite direction of velocity
-    const dragAcceleration = velocity > 0 ? -dragForce / mass : dragForce / mass;
+  calculateDragGeometry(components: RocketComponent[]): DragGeometry {
+    const referenceDiameter = this.calculateReferenceDiameter(components);
+    const segments = this.calculateBodySegments(components);
+    const noseTip = components.length > 0 ? Math.min(...components.map(c => c.y)) : 0;
+    const bodyLength = segments.length > 0
+      ? Math.max(...segments.map(s => s.position + s.length)) - segments[0].position
+      : 0;
 
-    // Calculate gravitational acceleration (varies with altitude)
-    const gravityAtAltitude = this.gravity * Math.pow(6371000 / (6371000 + altitude), 2);
+    return {
+      referenceArea: Math.PI * Math.pow(referenceDiameter / 2, 2),
+      length: bodyLength,
+      segments,
+      fins: components
+        .filter(c => c.type === 'fins')
+        .map(c => this.calculateFinGeometry(c, this.bodyDiameterAt(segments, (c.y - noseTip) / 1000, referenceDiameter))),
+      railGuides: components.map(c => c.railGuide ?? 'none').filter(guide => guide !== 'none'),
+      baseDiameter: segments.length > 0 ? segments[segments.length - 1].aftDiameter : referenceDiameter
+    };
+  }
 
-    // Net acceleration
-    const thrustAcceleration = thrust / mass;
-    const totalAcceleration = thrustAcceleration + dragAcceleration - gravityAtAltitude;
+  calculateReferenceDiameter(components: RocketComponent[]): number {
+    // Fins stick out past the airframe, so only body parts set the caliber
+    const bodyParts = components.filter(c => c.type === 'nosecone' || c.type === 'bodytube' || c.type === 'transition');
+    return Math.max(...(bodyParts.length > 0 ? bodyParts : components).map(c => c.width)) / 1000;
+  }
 
-    // Update state using Runge-Kutta integration
-    const newVelocity = velocity + totalAcceleration * deltaTime;
-    const newAltitude = Math.max(0, altitude + velocity * deltaTime + 0.5 * totalAcceleration * deltaTime * deltaTime);
-    const newMass = motorData && time <= motorData.burnTime 
-      ? mass - (motorData.propellantMass / motorData.burnTime) * deltaTime
-      : mass;
+  buildRocketPhysics(components: RocketComponent[], motorData: MotorData | null): RocketPhysics {
+    const noseTip = Math.min(...components.map(c => c.y));
+    const rocketLength = (Math.max(...components.map(c => c.y + c.height)) - noseTip) / 1000;
+    const diameter = this.calculateReferenceDiameter(components);
+    const dragGeometry = this.calculateDragGeometry(components);
+    const positionOf = (c: RocketComponent) => (c.y + c.height / 2 - noseTip) / 1000;
 
-    // Calculate Mach number
-    const speedOfSound = Math.sqrt(1.4 * this.gasConstant * (launchConditions.temperature - this.temperatureLapseRate * altitude + 273.15));
-    const mach = Math.abs(velocity) / speedOfSound;
+    // Motors burn in the lowest stage's engine mounts; motorData fills mounts that don't name one
+    const lowestStage = Math.max(...components.map(c => c.stage ?? 0));
+    const engines = components.filter(c => c.type === 'engine' && (c.stage ?? 0) === lowestStage);
+    const motors: MotorMount[] = engines.flatMap(engine => {
+      const motor = findMotor(engine.motorType) ?? motorData;
+      return motor ? [{
+        name: engine.name,
+        motorData: motor,
+        position: positionOf(engine),
+        length: engine.height / 1000,
+        diameter: engine.width / 1000,
+        radialOffset: (engine.radialOffset ?? 0) / 1000,
+        radialAngle: (engine.radialAngle ?? 0) * Math.PI / 180,
+        ignitionDelay: engine.ignitionDelay ?? 0,
+        failed: engine.ignitionFailure ?? false
+      }] : [];
+    });
+    if (engines.length === 0 && motorData) {
+      // Without an engine mount the motor sits at the aft end
+      motors.push({
+        name: motorData.designation,
+        motorData,
+        position: rocketLength,
+        length: 0,
+        diameter: dragGeometry.baseDiameter,
+        radialOffset: 0,
+        radialAngle: 0,
+        ignitionDelay: 0,
+        failed: false
+      });
+    }
 
-    // Calculate stability (simplified)
-    const stability = this.calculateStabilityMargin(
-      rocketPhysics.centerOfGravity,
-      rocketPhysics.centerOfPressure,
-      rocketPhysics.diameter
-    );
+    // Motors waiting in upper stages ride along as dead mass, as do the casings of burning motors
+    const inertMotors = components
+      .filter(c => c.type === 'engine' && (c.stage ?? 0) !== lowestStage)
+      .map(c => {
+        const motor = findMotor(c.motorType);
+        return offsetMassProperties(
+          cylinderMassProperties(motor?.totalMass ?? 0, positionOf(c), c.height / 1000, c.width / 2000),
+          (c.radialOffset ?? 0) / 1000
+        );
+      })
+      .filter(m => m.mass > 0);
+    const casings = motors.map(m => offsetMassProperties(
+      cylinderMassProperties(m.motorData.totalMass - m.motorData.propellantMass, m.position, m.length, m.diameter / 2),
+      m.radialOffset
+    ));
 
+    const dryMassProperties = combineMassProperties([
+      ...this.calculateComponentMassProperties(components),
+      ...inertMotors,
+      ...casings
+    ]);
+    const propellantMass = motors.reduce((sum, m) => sum + m.motorData.propellantMass, 0);
+    const centerOfPressure = (this.calculateCenterOfPressure(components) - noseTip) / 1000;
+
+    const rocketPhysics: RocketPhysics = {
+      totalMass: dryMassProperties.mass + propellantMass,
+      dryMass: dryMassProperties.mass,
+      propellantMass,
+      dryMassProperties,
+      centerOfGravity: dryMassProperties.centerOfGravity,
+      centerOfPressure,
+      stabilityMargin: 0,
+      dragGeometry,
+      dragFactor: 1,
+      referenceArea: dragGeometry.referenceArea,
+      length: rocketLength,
+      diameter,
+      aerodynamicSurfaces: this.calculateAerodynamicSurfaces(components),
+      longitudinalInertia: dryMassProperties.longitudinalInertia,
+      rotationalInertia: dryMassProperties.rotationalInertia,
+      recoveryDevices: components
+        .filter(c => c.type === 'parachute')
+        .map(c => ({
+          name: c.name,
+          role: c.recoveryRole ?? 'main',
+          // Older designs only carry an altitude, which implies an altimeter deployment
+          trigger: c.deploymentTrigger ?? (c.deploymentAltitude !== undefined ? 'altitude' : 'ejection'),
+          diameter: (c.canopyDiameter ?? DEFAULT_CANOPY_DIAMETER) / 1000,
+          dragCoefficient: c.dragCoefficient,
+          inflationTime: c.inflationTime ?? DEFAULT_INFLATION_TIME,
+          deploymentAltitude: c.deploymentAltitude ?? 0,
+          deploymentDelay: c.deploymentDelay ?? 0
+        })),
+      motors
+    };
+
+    // Liftoff mass properties, with every motor fully loaded
+    const liftoff = this.calculateMassProperties(rocketPhysics);
     return {
-      time: time + deltaTime,
-      altitude: newAltitude,
-      velocity: newVelocity,
-      acceleration: totalAcceleration,
-      mass: newMass,
-      thrust,
-      drag: dragForce,
-      mach,
-      stability,
-      angleOfAttack: 0, // Simplified
-      verticalVelocity: newVelocity,
-      lateralVelocity: 0, // Simplified for 1D simulation
-      position: { x: 0, y: newAltitude, z: 0 }
+      ...rocketPhysics,
+      totalMass: liftoff.mass,
+      centerOfGravity: liftoff.centerOfGravity,
+      stabilityMargin: this.calculateStabilityMargin(liftoff.centerOfGravity, centerOfPressure, diameter),
+      longitudinalInertia: liftoff.longitudinalInertia,
+      rotationalInertia: liftoff.rotationalInertia
     };
   }
 
-  runFullSimulation(
-    rocketPhysics: RocketPhysics,
-    motorData: MotorData,
-    launchConditions: LaunchConditions,
-    maxTime: number = 60,
-    timeStep: number = 0.01
-  ): FlightDataPoint[] {
-    const results: FlightDataPoint[] = [];
-    
-    let currentState: FlightDataPoint = {
+  buildStages(
+    components: RocketComponent[],
+    defaultMotor: MotorData | null,
+    configurations: StageConfiguration[] = []
+  ): StagePhysics[] {
+    // Stage 0 is the top (sustainer); higher stages sit below it and burn first
+    const stageCount = Math.max(0, ...components.map(c => c.stage ?? 0)) + 1;
+
+    return Array.from({ length: stageCount }, (_, stage) => {
+      const stageComponents = components.filter(c => (c.stage ?? 0) === stage);
+      // The selected motor fills the first stage's mounts unless a mount names its own
+      const motorData = stage === stageCount - 1 ? defaultMotor : null;
+
+      const stack = this.buildRocketPhysics(components.filter(c => (c.stage ?? 0) <= stage), motorData);
+
+      return {
+        configuration: configurations[stage] ?? {
+          name: stage === 0 ? 'Sustainer' : stageCount > 2 ? `Booster ${stage}` : 'Booster',
+          separationTrigger: 'burnout',
+          separationDelay: 0,
+          ignitionDelay: 0
+        },
+        stack,
+        body: stageComponents.length > 0 ? this.buildRocketPhysics(stageComponents, motorData) : stack
+      };
+    });
+  }
+
+  calculateBurnoutTime(rocketPhysics: RocketPhysics): number {
+    // s after the stage lights until its last motor burns out
+    return Math.max(0, ...rocketPhysics.motors
+      .filter(m => !m.failed)
+      .map(m => m.ignitionDelay + m.motorData.burnTime));
+  }
+
+  calculateLaunchAxis(launchConditions: LaunchConditions): Vector3 {
+    const elevation = launchConditions.launchAngle * Math.PI / 180;
+    const azimuth = launchConditions.launchDirection * Math.PI / 180;
+    return vec(
+      Math.cos(elevation) * Math.cos(azimuth),
+      Math.sin(elevation),
+      Math.cos(elevation) * Math.sin(azimuth)
+    );
+  }
+
+  hasClearedRail(state: FlightDataPoint, launchConditions: LaunchConditions): boolean {
+    const launchAxis = this.calculateLaunchAxis(launchConditions);
+    return dot(state.position, launchAxis) >= launchConditions.rodLength &&
+      dot(state.velocityVector, launchAxis) > 0;
+  }
+
+  createInitialState(rocketPhysics: RocketPhysics, launchConditions: LaunchConditions): FlightDataPoint {
+    const launchAxis = this.calculateLaunchAxis(launchConditions);
+
+    return {
       time: 0,
       altitude: 0,
       velocity: 0,
@@ -216,37 +827,768 @@ export class PhysicsEngine {
       mass: rocketPhysics.totalMass,
       thrust: 0,
       drag: 0,
+      dragCoefficient: 0,
       mach: 0,
-      stability: 0,
+      stability: this.calculateStabilityMargin(
+        rocketPhysics.centerOfGravity,
+        rocketPhysics.centerOfPressure,
+        rocketPhysics.diameter
+      ),
+      centerOfGravity: rocketPhysics.centerOfGravity,
+      centerOfPressure: rocketPhysics.centerOfPressure,
+      correctiveMomentCoefficient: 0,
+      aerodynamicDampingCoefficient: 0,
+      propulsiveDampingCoefficient: 0,
+      dampingRatio: 0,
+      naturalFrequency: 0,
+      rollRate: 0,
       angleOfAttack: 0,
       verticalVelocity: 0,
       lateralVelocity: 0,
-      position: { x: 0, y: 0, z: 0 }
+      position: { ...ZERO_VECTOR },
+      latitude: launchConditions.latitude,
+      longitude: launchConditions.longitude,
+      velocityVector: { ...ZERO_VECTOR },
+      attitude: quatFromTo(BODY_AXIS, launchAxis),
+      angularVelocity: { ...ZERO_VECTOR },
+      onRail: true,
+      ejected: false,
+      deploymentTimes: rocketPhysics.recoveryDevices.map(() => null),
+      recoveryConfiguration: null,
+      descentRate: 0,
+      drift: 0
     };
+  }
 
-    results.push({ ...currentState });
+  calculateThrust(motorData: MotorData | null, time: number, method: ThrustInterpolation = 'linear'): number {
+    if (!motorData) return 0;
+    return Math.max(0, interpolateThrust(motorData.thrustCurve, time, method));
+  }
 
-    while (currentState.time < maxTime && (currentState.altitude > 0 || currentState.velocity > 0 || currentState.time < 1)) {
-      currentState = this.simulateFlightStep(
-        currentState,
-        rocketPhysics,
-        motorData,
-        launchConditions,
-        timeStep
-      );
-      
-      results.push({ ...currentState });
-
-      // Stop if rocket has landed and velocity is near zero
-      if (currentState.altitude <= 0 && Math.abs(currentState.velocity) < 1.0 && currentState.time > 1) {
-        // Ensure final point shows ground landing
-        currentState.altitude = 0;
-        currentState.velocity = 0;
-        results.push({ ...currentState });
-        break;
+  calculatePropellantFlowRate(motorData: MotorData | null, time: number, method: ThrustInterpolation = 'linear'): number {
+    // Propellant is consumed in proportion to the impulse delivered
+    if (!motorData) return 0;
+    const curveImpulse = integrateThrust(motorData.thrustCurve, Infinity, method);
+    return curveImpulse > 0
+      ? motorData.propellantMass * this.calculateThrust(motorData, time, method) / curveImpulse
+      : 0;
+  }
+
+  calculateCanopyDragArea(state: FlightDataPoint, rocketPhysics: RocketPhysics): number {
+    // Cd·A of the open recovery devices, growing linearly while they inflate
+    return rocketPhysics.recoveryDevices.reduce((sum, device, i) => {
+      const openedAt = state.deploymentTimes[i];
+      if (openedAt === null || openedAt === undefined) return sum;
+      const inflation = device.inflationTime > 0
+        ? Math.min(1, Math.max(0, (state.time - openedAt) / device.inflationTime))
+        : 1;
+      return sum + device.dragCoefficient * Math.PI * Math.pow(device.diameter / 2, 2) * inflation;
+    }, 0);
+  }
+
+  private deployRecoveryDevices(
+    state: FlightDataPoint,
+    rocketPhysics: RocketPhysics,
+    opens: (device: RecoveryDevice) => boolean
+  ): FlightDataPoint {
+    return {
+      ...state,
+      deploymentTimes: rocketPhysics.recoveryDevices.map((device, i) =>
+        state.deploymentTimes[i] === null && opens(device) ? state.time : state.deploymentTimes[i]
+      )
+    };
+  }
+
+  private getStateTriggers(state: FlightDataPoint, context: SimulationContext, hasLiftedOff: boolean): StateTrigger[] {
+    const { launchConditions, rocketPhysics, ignitionTime } = context;
+    const triggers: StateTrigger[] = [];
+
+    if (!hasLiftedOff) {
+      triggers.push({
+        type: 'liftoff',
+        hasOccurred: s => s.altitude > 0,
+        apply: s => s
+      });
+    }
+
+    if (state.onRail) {
+      // Rail exit frees the rocket to rotate
+      triggers.push({
+        type: 'railExit',
+        hasOccurred: s => this.hasClearedRail(s, launchConditions),
+        apply: s => ({ ...s, onRail: false })
+      });
+    } else if (hasLiftedOff) {
+      triggers.push({
+        type: 'landing',
+        hasOccurred: s => s.altitude <= 0,
+        apply: s => ({ ...s, position: { ...s.position, y: 0 } })
+      });
+    }
+
+    if (hasLiftedOff && state.verticalVelocity > 0) {
+      // Pin apogee down exactly so it doesn't depend on the step size
+      triggers.push({
+        type: 'apogee',
+        hasOccurred: s => s.verticalVelocity <= 0,
+        apply: s => this.deployRecoveryDevices(s, rocketPhysics, device => device.trigger === 'apogee')
+      });
+    }
+
+    rocketPhysics.recoveryDevices.forEach((device, i) => {
+      if (state.deploymentTimes[i] !== null) return;
+      const opens = (candidate: RecoveryDevice) => candidate === device;
+      if (device.trigger === 'altitude' && hasLiftedOff) {
+        triggers.push({
+          type: 'deployment',
+          hasOccurred: s => s.verticalVelocity < 0 && s.altitude <= device.deploymentAltitude,
+          apply: s => this.deployRecoveryDevices(s, rocketPhysics, opens)
+        });
+      } else if (device.trigger === 'timer' && hasLiftedOff) {
+        // Timed from this stage's ignition; an upper stage lights well after liftoff.
+        // A delay that runs out on the pad still waits for liftoff to open.
+        triggers.push({
+          type: 'deployment',
+          hasOccurred: s => s.time - ignitionTime >= device.deploymentDelay,
+          apply: s => this.deployRecoveryDevices(s, rocketPhysics, opens)
+        });
+      }
+    });
+
+    return triggers;
+  }
+
+  private createContext(
+    rocketPhysics: RocketPhysics,
+    launchConditions: LaunchConditions,
+    options: Partial<SimulationOptions> = {},
+    ignitionTime: number = 0,
+    carriesUpperStages: boolean = false
+  ): SimulationContext {
+    // The first ejection charge to fire opens the recovery devices
+    const ejectionTimes = rocketPhysics.motors
+      .filter(m => !m.failed)
+      .map(m => ignitionTime + m.ignitionDelay + m.motorData.burnTime + m.motorData.delay);
+
+    return {
+      rocketPhysics,
+      ignitionTime,
+      ejectionTime: carriesUpperStages ? Infinity : Math.min(...ejectionTimes),
+      launchConditions,
+      settings: { ...DEFAULT_SIMULATION_OPTIONS, ...options },
+      wind: new WindModel(launchConditions),
+      atmosphere: new Atmosphere(launchConditions),
+      site: launchSite(launchConditions),
+      earthRotation: launchConditions.coriolis ? earthRotation(launchConditions.latitude) : { ...ZERO_VECTOR }
+    };
+  }
+
+  private evaluatePropulsion(time: number, context: SimulationContext, centerOfGravity: number): PropulsionEvaluation {
+    // Every lit motor pushes along the body axis from its own mount
+    const { thrustInterpolation } = context.settings;
+    return context.rocketPhysics.motors.reduce((total, mount) => {
+      if (mount.failed) return total;
+      const motorTime = time - context.ignitionTime - mount.ignitionDelay;
+      const thrust = this.calculateThrust(mount.motorData, motorTime, thrustInterpolation);
+      const flowRate = this.calculatePropellantFlowRate(mount.motorData, motorTime, thrustInterpolation);
+      const offset = vec(0, mount.radialOffset * Math.cos(mount.radialAngle), mount.radialOffset * Math.sin(mount.radialAngle));
+      // Exhaust leaving the nozzle carries away the transverse momentum of the pitching body
+      const nozzleArm = mount.position + mount.length / 2 - centerOfGravity;
+      return {
+        thrust: total.thrust + thrust,
+        massRate: total.massRate - flowRate,
+        moment: add(total.moment, cross(offset, vec(thrust, 0, 0))),
+        exhaustArea: total.exhaustArea + (thrust > 0 ? Math.PI * Math.pow(mount.diameter / 2, 2) : 0),
+        jetDamping: total.jetDamping + flowRate * nozzleArm * nozzleArm
+      };
+    }, { thrust: 0, massRate: 0, moment: { ...ZERO_VECTOR }, exhaustArea: 0, jetDamping: 0 });
+  }
+
+  private evaluateDynamics(state: FlightDataPoint, context: SimulationContext): DynamicsEvaluation {
+    const { rocketPhysics, launchConditions, wind, atmosphere } = context;
+    const { time, position, velocityVector, attitude, angularVelocity, mass } = state;
+    const altitude = position.y;
+
+    // CG and inertia shift as the motors burn
+    const massProperties = this.calculateMassProperties(
+      rocketPhysics,
+      time - context.ignitionTime,
+      context.settings.thrustInterpolation
+    );
+    const { centerOfGravity } = massProperties;
+
+    const { thrust, massRate, moment: thrustMoment, exhaustArea, jetDamping } =
+      this.evaluatePropulsion(time, context, centerOfGravity);
+
+    const { density: airDensity, speedOfSound, dynamicViscosity } = atmosphere.getProperties(altitude);
+
+    // Airflow relative to the rocket, in world and body frames
+    const airVelocity = subtract(velocityVector, wind.getWind(altitude, time));
+    const airspeed = length(airVelocity);
+    const bodyAirVelocity = quatRotate(quatConjugate(attitude), airVelocity);
+    const angleOfAttack = airspeed > 1e-6
+      ? Math.acos(Math.max(-1, Math.min(1, bodyAirVelocity.x / airspeed)))
+      : 0;
+    const dynamicPressure = 0.5 * airDensity * airspeed * airspeed;
+
+    const mach = airspeed / speedOfSound;
+    const axis = quatRotate(attitude, BODY_AXIS);
+    const dragCoefficient = rocketPhysics.dragFactor * calculateDragCoefficient(rocketPhysics.dragGeometry, {
+      airspeed,
+      mach,
+      density: airDensity,
+      dynamicViscosity,
+      exhaustArea
+    }).total;
+    const dragForce = this.calculateDragForce(airspeed, airDensity, dragCoefficient, rocketPhysics.referenceArea);
+
+    // WGS84 normal gravity at the site's latitude and the current height, plus Coriolis if enabled
+    const gravityAtAltitude = normalGravity(context.site.latitude, context.site.height + altitude);
+    const gravityForce = add(vec(0, -mass * gravityAtAltitude, 0), scale(cross(context.earthRotation, velocityVector), -2 * mass));
+
+    let force = add(scale(axis, thrust), gravityForce);
+    if (airspeed > 1e-6) {
+      force = add(force, scale(airVelocity, -dragForce / airspeed));
+    }
+
+    // CP moves with Mach number and, through body lift, with angle of attack
+    const aerodynamics = calculateNormalForceAtMach(
+      rocketPhysics.aerodynamicSurfaces,
+      mach,
+      rocketPhysics.referenceArea,
+      angleOfAttack
+    );
+    const { normalForceSlope, centerOfPressure } = aerodynamics;
+
+    // Under canopy the rocket hangs as a point mass below its recovery devices
+    const canopyDragArea = this.calculateCanopyDragArea(state, rocketPhysics);
+    if (canopyDragArea > 0) {
+      const recoveryDrag = 0.5 * airDensity * airspeed * airspeed *
+        (canopyDragArea + dragCoefficient * rocketPhysics.referenceArea);
+      let recoveryForce = add(scale(axis, thrust), gravityForce);
+      if (airspeed > 1e-6) {
+        recoveryForce = add(recoveryForce, scale(airVelocity, -recoveryDrag / airspeed));
       }
+
+      return {
+        derivative: {
+          velocity: velocityVector,
+          acceleration: scale(recoveryForce, 1 / mass),
+          attitudeRate: { w: 0, x: 0, y: 0, z: 0 },
+          angularAcceleration: { ...ZERO_VECTOR },
+          massRate
+        },
+        thrust,
+        drag: recoveryDrag,
+        dragCoefficient,
+        mach,
+        angleOfAttack: 0,
+        pitch: NO_PITCH_DYNAMICS,
+        centerOfGravity,
+        centerOfPressure
+      };
     }
 
-    return results;
+    // Normal force acts at the CP, opposing the lateral airflow
+    const lateralAirVelocity = vec(0, bodyAirVelocity.y, bodyAirVelocity.z);
+    const lateralAirspeed = length(lateralAirVelocity);
+    let moment = thrustMoment;
+    if (lateralAirspeed > 1e-9) {
+      const normalForce = dynamicPressure * rocketPhysics.referenceArea * normalForceSlope * Math.sin(angleOfAttack);
+      const bodyNormalForce = scale(lateralAirVelocity, -normalForce / lateralAirspeed);
+      force = add(force, quatRotate(attitude, bodyNormalForce));
+      moment = add(moment, cross(vec(centerOfGravity - centerOfPressure, 0, 0), bodyNormalForce));
+    }
+
+    // Aerodynamic pitch/yaw damping from each lifting surface, plus jet damping while the motors burn
+    const dampingCoefficient = 0.5 * airDensity * airspeed * rocketPhysics.referenceArea *
+      aerodynamics.surfaces.reduce((sum, s) =>
+        sum + s.normalForceSlope * Math.pow(s.position - centerOfGravity, 2), 0);
+    const totalDamping = dampingCoefficient + jetDamping;
+    moment = add(moment, vec(0, -totalDamping * angularVelocity.y, -totalDamping * angularVelocity.z));
+
+    // Canted fins drive the roll, and the fins resist it
+    const roll = calculateRollMoments(aerodynamics.surfaces, rocketPhysics.referenceArea, dynamicPressure, airspeed);
+    moment = add(moment, vec(roll.forcingMoment - roll.dampingCoefficient * angularVelocity.x, 0, 0));
+    const pitch: PitchDynamics = {
+      correctiveMoment: dynamicPressure * rocketPhysics.referenceArea * normalForceSlope * (centerOfPressure - centerOfGravity),
+      aerodynamicDamping: dampingCoefficient,
+      propulsiveDamping: jetDamping,
+      longitudinalInertia: massProperties.longitudinalInertia
+    };
+
+    // On the rail only motion along the launch axis is possible
+    if (state.onRail) {
+      const launchAxis = this.calculateLaunchAxis(launchConditions);
+      const axialForce = dot(force, launchAxis);
+      const railLoad = length(subtract(force, scale(launchAxis, axialForce)));
+      const friction = (launchConditions.railFriction ?? 0) * railLoad;
+      const railSpeed = dot(velocityVector, launchAxis);
+      const held = railSpeed <= 0 && axialForce <= friction;
+
+      return {
+        derivative: {
+          velocity: held ? { ...ZERO_VECTOR } : velocityVector,
+          acceleration: held ? { ...ZERO_VECTOR } : scale(launchAxis, (axialForce - friction) / mass),
+          attitudeRate: { w: 0, x: 0, y: 0, z: 0 },
+          angularAcceleration: { ...ZERO_VECTOR },
+          massRate
+        },
+        thrust,
+        drag: dragForce,
+        dragCoefficient,
+        mach,
+        angleOfAttack: angleOfAttack * 180 / Math.PI,
+        pitch,
+        centerOfGravity,
+        centerOfPressure
+      };
+    }
+
+    // Euler's rotation equations with an axisymmetric inertia tensor
+    const inertia = vec(
+      massProperties.rotationalInertia,
+      massProperties.longitudinalInertia,
+      massProperties.longitudinalInertia
+    );
+    const angularMomentum = vec(
+      inertia.x * angularVelocity.x,
+      inertia.y * angularVelocity.y,
+      inertia.z * angularVelocity.z
+    );
+    const netMoment = subtract(moment, cross(angularVelocity, angularMomentum));
+
+    return {
+      derivative: {
+        velocity: velocityVector,
+        acceleration: scale(force, 1 / mass),
+        attitudeRate: quatDerivative(attitude, angularVelocity),
+        angularAcceleration: vec(
+          inertia.x > 0 ? netMoment.x / inertia.x : 0,
+          inertia.y > 0 ? netMoment.y / inertia.y : 0,
+          inertia.z > 0 ? netMoment.z / inertia.z : 0
+        ),
+        massRate
+      },
+      thrust,
+      drag: dragForce,
+      dragCoefficient,
+      mach,
+      angleOfAttack: angleOfAttack * 180 / Math.PI,
+      pitch,
+      centerOfGravity,
+      centerOfPressure
+    };
   }
-}
\ No newline at end of file
+
+  private describeState(state: FlightDataPoint, context: SimulationContext): FlightDataPoint {
+    const { derivative, thrust, drag, dragCoefficient, mach, angleOfAttack, pitch, centerOfGravity, centerOfPressure } =
+      this.evaluateDynamics(state, context);
+    const { velocityVector } = state;
+    const { latitude, longitude } = localToGeodetic(context.site, state.position);
+
+    // Second-order pitch response: I·θ'' + C2·θ' + C1·θ = 0
+    const totalDamping = pitch.aerodynamicDamping + pitch.propulsiveDamping;
+    const restoring = pitch.correctiveMoment > 0 && pitch.longitudinalInertia > 0;
+    const openRoles = context.rocketPhysics.recoveryDevices
+      .filter((_, i) => state.deploymentTimes[i] !== null)
+      .map(device => device.role);
+
+    return {
+      ...state,
+      altitude: state.position.y,
+      velocity: length(velocityVector),
+      acceleration: length(derivative.acceleration),
+      thrust,
+      drag,
+      dragCoefficient,
+      mach,
+      // Propellant burns off the aft end, so the margin changes through the flight
+      stability: this.calculateStabilityMargin(centerOfGravity, centerOfPressure, context.rocketPhysics.diameter),
+      centerOfGravity,
+      centerOfPressure,
+      correctiveMomentCoefficient: pitch.correctiveMoment,
+      aerodynamicDampingCoefficient: pitch.aerodynamicDamping,
+      propulsiveDampingCoefficient: pitch.propulsiveDamping,
+      dampingRatio: restoring ? totalDamping / (2 * Math.sqrt(pitch.correctiveMoment * pitch.longitudinalInertia)) : 0,
+      naturalFrequency: restoring ? Math.sqrt(pitch.correctiveMoment / pitch.longitudinalInertia) / (2 * Math.PI) : 0,
+      rollRate: state.angularVelocity.x / (2 * Math.PI),
+      angleOfAttack,
+      verticalVelocity: velocityVector.y,
+      lateralVelocity: Math.sqrt(velocityVector.x * velocityVector.x + velocityVector.z * velocityVector.z),
+      descentRate: Math.max(0, -velocityVector.y),
+      drift: Math.sqrt(state.position.x * state.position.x + state.position.z * state.position.z),
+      latitude,
+      longitude,
+      recoveryConfiguration: openRoles.includes('main') ? 'main' : openRoles.includes('drogue') ? 'drogue' : null
+    };
+  }
+
+  private stateToVector(state: FlightDataPoint): number[] {
+    const { position: p, velocityVector: v, attitude: q, angularVelocity: w } = state;
+    return [p.x, p.y, p.z, v.x, v.y, v.z, q.w, q.x, q.y, q.z, w.x, w.y, w.z, state.mass];
+  }
+
+  private vectorToState(template: FlightDataPoint, time: number, y: number[]): FlightDataPoint {
+    return {
+      ...template,
+      event: undefined,
+      time,
+      position: vec(y[0], y[1], y[2]),
+      velocityVector: vec(y[3], y[4], y[5]),
+      attitude: quatNormalize({ w: y[6], x: y[7], y: y[8], z: y[9] }),
+      angularVelocity: vec(y[10], y[11], y[12]),
+      mass: y[13]
+    };
+  }
+
+  private createDerivativeFunction(template: FlightDataPoint, context: SimulationContext): DerivativeFunction {
+    return (time, y) => {
+      const { derivative: d } = this.evaluateDynamics(this.vectorToState(template, time, y), context);
+      return [
+        d.velocity.x, d.velocity.y, d.velocity.z,
+        d.acceleration.x, d.acceleration.y, d.acceleration.z,
+        d.attitudeRate.w, d.attitudeRate.x, d.attitudeRate.y, d.attitudeRate.z,
+        d.angularAcceleration.x, d.angularAcceleration.y, d.angularAcceleration.z,
+        d.massRate
+      ];
+    };
+  }
+
+  private advance(f: DerivativeFunction, integrator: IntegratorType, time: number, y: number[], h: number): number[] {
+    switch (integrator) {
+      case 'rk4':
+        return rk4Step(f, time, y, h);
+      case 'rk45':
+        return dormandPrinceStep(f, time, y, h).state;
+      default:
+        return eulerStep(f, time, y, h);
+    }
+  }
+
+  getDiscontinuityTimes(motorData: MotorData | null): number[] {
+    // Thrust curve corners, burnout and ejection; steps are shortened to land on them
+    if (!motorData) return [];
+    const times = [
+      ...motorData.thrustCurve.map(point => point.time),
+      motorData.burnTime,
+      motorData.burnTime + motorData.delay
+    ];
+    return [...new Set(times.filter(t => t > 0))].sort((a, b) => a - b);
+  }
+
+  simulateFlightStep(
+    currentState: FlightDataPoint,
+    rocketPhysics: RocketPhysics,
+    launchConditions: LaunchConditions,
+    deltaTime: number,
+    options: Partial<SimulationOptions> = {}
+  ): FlightDataPoint {
+    const context = this.createContext(rocketPhysics, launchConditions, { integrator: 'euler', ...options });
+    const derivatives = this.createDerivativeFunction(currentState, context);
+    const next = this.vectorToState(
+      currentState,
+      currentState.time + deltaTime,
+      this.advance(derivatives, context.settings.integrator, currentState.time, this.stateToVector(currentState), deltaTime)
+    );
+    if (next.onRail && this.hasClearedRail(next, launchConditions)) {
+      next.onRail = false;
+    }
+
+    return this.describeState(next, context);
+  }
+
+  private locateEvent(
+    start: FlightDataPoint,
+    stepSize: number,
+    hasOccurred: (state: FlightDataPoint) => boolean,
+    step: (state: FlightDataPoint, h: number) => FlightDataPoint
+  ): FlightDataPoint {
+    // Bisect the step until the event time is pinned down
+    let low = 0;
+    let high = stepSize;
+    let located = step(start, high);
+    while (high - low > EVENT_TIME_TOLERANCE) {
+      const mid = (low + high) / 2;
+      const candidate = step(start, mid);
+      if (hasOccurred(candidate)) {
+        high = mid;
+        located = candidate;
+      } else {
+        low = mid;
+      }
+    }
+    return located;
+  }
+
+  // Reported with the result rather than logged, since batch runs fly the same motors over and over
+  private findImpulseMismatches(motors: MotorData[], settings: SimulationOptions): MotorImpulseMismatch[] {
+    return [...new Set(motors)]
+      .map(motorData => ({
+        designation: motorData.designation,
+        ...checkImpulseConsistency(motorData, settings.thrustInterpolation, settings.impulseTolerance)
+      }))
+      .filter(check => !check.consistent);
+  }
+
+  private integrateFlight(
+    context: SimulationContext,
+    initialState: FlightDataPoint,
+    stopTime: number,
+    onProgress?: FlightProgressCallback
+  ): FlightSimulation {
+    // Integrates from initialState until landing, the stop event or stopTime; the last point returned is the final state
+    const { rocketPhysics, ignitionTime, ejectionTime, settings } = context;
+    const results: FlightDataPoint[] = [{ ...initialState }];
+    onProgress?.([{ ...initialState }]);
+    const events: FlightEvent[] = [];
+    const recordEvent = (type: FlightEventType, state: FlightDataPoint, source?: string) => {
+      events.push({ type, time: state.time, source, state: { ...state } });
+    };
+    const describe = (state: FlightDataPoint) => this.describeState(state, context);
+
+    // Discrete state (rail, recovery) is frozen over a step, so derivatives are built per step
+    const derivativesFrom = (state: FlightDataPoint) => this.createDerivativeFunction(state, context);
+    const step = (state: FlightDataPoint, h: number) =>
+      describe(this.vectorToState(state, state.time + h, this.advance(derivativesFrom(state), settings.integrator, state.time, this.stateToVector(state), h)));
+
+    const endTime = Math.min(stopTime, settings.maxTime);
+    const litMotors = rocketPhysics.motors.filter(m => !m.failed);
+    const ignitionTimes = litMotors.map(m => ignitionTime + m.ignitionDelay).filter(t => t > 0);
+    const motorEvents = litMotors.flatMap(m => [
+      { type: 'ignition' as const, time: ignitionTime + m.ignitionDelay, source: m.motorData.designation },
+      { type: 'burnout' as const, time: ignitionTime + m.ignitionDelay + m.motorData.burnTime, source: m.motorData.designation }
+    ]);
+    const motorEventsAt = (time: number) => motorEvents.filter(e => Math.abs(e.time - time) <= EVENT_TIME_TOLERANCE);
+    // Motors lit as the flight segment starts
+    motorEventsAt(initialState.time)
+      .filter(e => e.type === 'ignition')
+      .forEach(e => recordEvent(e.type, initialState, e.source));
+    const discontinuities = [
+      ...litMotors.flatMap(m => this.getDiscontinuityTimes(m.motorData).map(t => t + ignitionTime + m.ignitionDelay)),
+      ...ignitionTimes,
+      endTime
+    ].sort((a, b) => a - b);
+    // Change-based sampling never falls due on time, only on the thresholds below
+    const outputInterval = settings.outputSampling === 'rate' ? 1 / settings.outputRate : Infinity;
+    let nextOutputTime = (Math.floor(initialState.time / outputInterval + EVENT_TIME_TOLERANCE) + 1) * outputInterval;
+    let lastOutput = initialState;
+    const changedSinceOutput = (state: FlightDataPoint) => settings.outputSampling === 'change' && (
+      Math.abs(state.altitude - lastOutput.altitude) >= settings.outputChange.altitude ||
+      Math.abs(state.velocity - lastOutput.velocity) >= settings.outputChange.velocity ||
+      Math.abs(state.acceleration - lastOutput.acceleration) >= settings.outputChange.acceleration
+    );
+    let stepSize = settings.timeStep;
+    let currentState = initialState;
+    let hasLiftedOff = initialState.altitude > 0;
+
+    while (currentState.time < endTime - EVENT_TIME_TOLERANCE) {
+      // Never step across a known discontinuity; land exactly on it instead
+      const nextDiscontinuity = discontinuities.find(t => t > currentState.time + EVENT_TIME_TOLERANCE) ?? endTime;
+      const h = Math.min(stepSize, nextDiscontinuity - currentState.time);
+      const y0 = this.stateToVector(currentState);
+      const derivatives = derivativesFrom(currentState);
+
+      let y1: number[];
+      if (settings.integrator === 'rk45') {
+        const attempt = dormandPrinceStep(derivatives, currentState.time, y0, h);
+        const norm = errorNorm(attempt.error, y0, attempt.state, settings.tolerance);
+        const factor = norm > 0 ? 0.9 * Math.pow(norm, -0.2) : 5;
+        if (norm > 1 && h > MIN_TIME_STEP) {
+          stepSize = Math.max(MIN_TIME_STEP, h * Math.max(0.2, factor));
+          continue;
+        }
+        y1 = attempt.state;
+        stepSize = Math.min(MAX_TIME_STEP, Math.max(stepSize, h) * Math.min(5, factor));
+      } else {
+        y1 = this.advance(derivatives, settings.integrator, currentState.time, y0, h);
+      }
+
+      let nextState = describe(this.vectorToState(currentState, currentState.time + h, y1));
+
+      // Cut the step short at the first state event inside it, then apply every
+      // event that has happened by then so simultaneous triggers aren't lost
+      const triggers = this.getStateTriggers(currentState, context, hasLiftedOff);
+      const fired = triggers
+        .filter(trigger => trigger.hasOccurred(nextState))
+        .map(trigger => ({ trigger, state: this.locateEvent(currentState, h, trigger.hasOccurred, step) }))
+        .sort((a, b) => a.state.time - b.state.time)[0];
+      const eventTypes: FlightEventType[] = [];
+      if (fired) {
+        const simultaneous = triggers.filter(trigger => trigger.hasOccurred(fired.state));
+        const applied = simultaneous.reduce((state, trigger) => trigger.apply(state), fired.state);
+        nextState = { ...describe(applied), event: fired.trigger.type };
+        // Each opened device is recorded below, whatever opened it
+        eventTypes.push(...simultaneous.map(trigger => trigger.type).filter(type => type !== 'deployment'));
+      }
+
+      // Ignition, burnout and ejection are scheduled, so the step already ends on them
+      const scheduled = motorEventsAt(nextState.time);
+      if (scheduled.length > 0) {
+        nextState.event = nextState.event ?? scheduled[0].type;
+      }
+      if (!nextState.ejected && nextState.time >= ejectionTime - EVENT_TIME_TOLERANCE) {
+        const ejected = this.deployRecoveryDevices(nextState, rocketPhysics, device => device.trigger === 'ejection');
+        nextState = { ...describe({ ...ejected, ejected: true }), event: nextState.event ?? 'ejection' };
+        eventTypes.push('ejection');
+      }
+
+      const recordedBefore = events.length;
+      scheduled.forEach(e => recordEvent(e.type, nextState, e.source));
+      eventTypes.forEach(type => recordEvent(type, nextState));
+      rocketPhysics.recoveryDevices.forEach((device, i) => {
+        if (currentState.deploymentTimes[i] === null && nextState.deploymentTimes[i] !== null) {
+          recordEvent('deployment', nextState, device.name);
+        }
+      });
+
+      const stopped = nextState.event === 'landing' ||
+        events.slice(recordedBefore).some(e => e.type === settings.stopEvent);
+      const finished = stopped || nextState.time >= endTime - EVENT_TIME_TOLERANCE;
+
+      // Sample the output at a fixed rate, interpolating inside long steps
+      const stepOutput: FlightDataPoint[] = [];
+      const y = this.stateToVector(nextState);
+      while (nextOutputTime < nextState.time - EVENT_TIME_TOLERANCE) {
+        const fraction = (nextOutputTime - currentState.time) / (nextState.time - currentState.time);
+        stepOutput.push(describe(this.vectorToState(
+          currentState,
+          nextOutputTime,
+          y0.map((value, i) => value + (y[i] - value) * fraction)
+        )));
+        nextOutputTime += outputInterval;
+      }
+
+      // Step ends on output times, discontinuities and events are always kept
+      if (nextState.event || finished || changedSinceOutput(nextState) ||
+          Math.abs(nextState.time - nextOutputTime) <= EVENT_TIME_TOLERANCE ||
+          Math.abs(nextState.time - nextDiscontinuity) <= EVENT_TIME_TOLERANCE) {
+        stepOutput.push(nextState);
+        if (nextState.time >= nextOutputTime - EVENT_TIME_TOLERANCE) {
+          nextOutputTime += outputInterval;
+        }
+      }
+
+      const output = stepOutput.sort((a, b) => a.time - b.time).map(point => ({ ...point }));
+      results.push(...output);
+      if (output.length > 0) {
+        lastOutput = output[output.length - 1];
+        onProgress?.(output);
+      }
+
+      if (nextState.altitude > 0) {
+        hasLiftedOff = true;
+      }
+      currentState = nextState;
+
+      // Stop once the rocket is back on the ground or the stop event has happened
+      if (stopped) break;
+    }
+
+    return { data: results, events };
+  }
+
+  private endSimulation(simulation: FlightSimulation): FlightSimulation {
+    const final = simulation.data[simulation.data.length - 1];
+    const end: FlightEvent = { type: 'simulationEnd', time: final.time, state: { ...final } };
+    return {
+      data: simulation.data,
+      events: [...simulation.events, end].sort((a, b) => a.time - b.time)
+    };
+  }
+
+  runFullSimulation(
+    rocketPhysics: RocketPhysics,
+    launchConditions: LaunchConditions,
+    options: Partial<SimulationOptions> = {},
+    onProgress?: FlightProgressCallback
+  ): FlightSimulation {
+    const context = this.createContext(rocketPhysics, launchConditions, options);
+    const impulseMismatches = this.findImpulseMismatches(rocketPhysics.motors.map(m => m.motorData), context.settings);
+
+    const initialState = this.describeState(this.createInitialState(rocketPhysics, launchConditions), context);
+    return {
+      ...this.endSimulation(this.integrateFlight(context, initialState, context.settings.maxTime, onProgress)),
+      impulseMismatches
+    };
+  }
+
+  private separateBody(state: FlightDataPoint, rocketPhysics: RocketPhysics, mass: number, context: SimulationContext): FlightDataPoint {
+    // A separated body keeps the kinematic state but starts its own recovery sequence
+    return {
+      ...this.describeState({
+        ...state,
+        mass,
+        ejected: false,
+        deploymentTimes: rocketPhysics.recoveryDevices.map(() => null),
+        event: undefined
+      }, context),
+      event: 'separation'
+    };
+  }
+
+  runStagedSimulation(
+    stages: StagePhysics[],
+    launchConditions: LaunchConditions,
+    options: Partial<SimulationOptions> = {},
+    onProgress?: FlightProgressCallback
+  ): FlightTrajectory[] {
+    // The upper stage's trajectory comes first, each booster follows from the lowest up
+    const boosters: FlightTrajectory[] = [];
+    let stageIndex = stages.length - 1;
+    let stage = stages[stageIndex];
+    let ignitionTime = 0;
+    let context = this.createContext(stage.stack, launchConditions, options, ignitionTime, stageIndex > 0);
+    let history: FlightSimulation = { data: [], events: [] };
+    let state = this.describeState(this.createInitialState(stage.stack, launchConditions), context);
+    const impulseMismatches = this.findImpulseMismatches(stages.flatMap(s => s.stack.motors.map(m => m.motorData)), context.settings);
+    const append = (first: FlightSimulation, second: FlightSimulation): FlightSimulation => ({
+      data: [...first.data, ...second.data],
+      events: [...first.events, ...second.events]
+    });
+
+    while (stageIndex > 0) {
+      const { separationTrigger, separationDelay } = stage.configuration;
+      const separationTime = ignitionTime + separationDelay +
+        (separationTrigger === 'burnout' ? this.calculateBurnoutTime(stage.stack) : 0);
+
+      const results = this.integrateFlight(context, state, separationTime, onProgress);
+      const final = results.data[results.data.length - 1];
+      const stopEvents: FlightEventType[] = ['landing', context.settings.stopEvent];
+      if (results.events.some(e => stopEvents.includes(e.type)) || final.time < separationTime - EVENT_TIME_TOLERANCE) {
+        // Never separated; the whole stack came down together, or the flight was stopped first
+        return [{ name: stage.configuration.name, ...this.endSimulation(append(history, results)), impulseMismatches }, ...boosters];
+      }
+      history = append(history, { data: results.data.slice(0, -1), events: results.events });
+
+      // The spent stage falls away on its own trajectory
+      const upper = stages[stageIndex - 1];
+      const boosterContext = this.createContext(stage.body, launchConditions, options, ignitionTime);
+      const boosterStart = this.separateBody(final, stage.body, final.mass - upper.stack.totalMass, boosterContext);
+      const separation: FlightEvent = { type: 'separation', time: final.time, source: stage.configuration.name, state: boosterStart };
+      boosters.unshift({
+        name: stage.configuration.name,
+        ...this.endSimulation(append(
+          { data: history.data, events: [...history.events, separation] },
+          this.integrateFlight(boosterContext, boosterStart, Infinity)
+        ))
+      });
+
+      stageIndex--;
+      stage = upper;
+      ignitionTime = separationTime + stage.configuration.ignitionDelay;
+      context = this.createContext(stage.stack, launchConditions, options, ignitionTime, stageIndex > 0);
+      state = this.separateBody(final, stage.stack, stage.stack.totalMass, context);
+      history = { data: history.data, events: [...history.events, { ...separation, state: { ...state } }] };
+    }
+
+    return [
+      {
+        name: stage.configuration.name,
+        ...this.endSimulation(append(history, this.integrateFlight(context, state, Infinity, onProgress))),
+        impulseMismatches
+      },
+      ...boosters
+    ];
+  }
+}
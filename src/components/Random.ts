@@ -0,0 +1,35 @@
+// Seeded pseudo-random numbers so stochastic simulations are repeatable
+
+export interface RandomSource {
+  next: () => number; // uniform in [0, 1)
+  normal: () => number; // standard normal
+}
+
+export function createRandom(seed: number): RandomSource {
+  // mulberry32
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Box–Muller, caching the second value
+  let spare: number | null = null;
+  const normal = () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u = Math.max(next(), Number.EPSILON);
+    const v = next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+
+  return { next, normal };
+}
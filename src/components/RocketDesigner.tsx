@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Rocket, Zap, BarChart3, Settings, Play, Pause, Database, Target } from "lucide-react";
@@ -11,11 +11,39 @@ import { MotorDatabase } from "./MotorDatabase";
 import { DetailedComponentProperties } from "./DetailedComponentProperties";
 import { FlightDataGraph } from "./FlightDataGraph";
 import { StabilityAnalysis } from "./StabilityAnalysis";
-import { PhysicsEngine, type FlightDataPoint, type MotorData } from "./PhysicsEngine";
+import { StageEditor } from "./StageEditor";
+import { MachAnalysis } from "./MachAnalysis";
+import { MonteCarloAnalysis } from "./MonteCarloAnalysis";
+import { ParameterSweepAnalysis } from "./ParameterSweepAnalysis";
+import { DesignOptimizerPanel } from "./DesignOptimizerPanel";
+import { DynamicStabilityGraph } from "./DynamicStabilityGraph";
+import { LandingSafetyReport } from "./LandingSafetyReport";
+import { SimulationSettingsEditor } from "./SimulationSettingsEditor";
+import { isCancellation, runFlightInWorker } from "./SimulationClient";
+import {
+  DEFAULT_LANDING_SAFETY_LIMITS,
+  analyzeLandingSafety,
+  stripRecovery,
+  type LandingSafetyLimits
+} from "./LandingSafety";
+import {
+  PhysicsEngine,
+  type DeploymentTrigger,
+  type FlightDataPoint,
+  type FlightEvent,
+  type FlightTrajectory,
+  type LaunchConditions,
+  type MotorData,
+  type RecoveryRole,
+  type SimulationOptions,
+  type StageConfiguration
+} from "./PhysicsEngine";
+import type { FinProfile, RailGuide, SurfaceFinish } from "./DragModel";
+import type { NoseShape } from "./Aerodynamics";
 
 export interface RocketComponent {
   id: string;
-  type: "nosecone" | "bodytube" | "fins" | "engine" | "transition" | "parachute";
+  type: "nosecone" | "bodytube" | "fins" | "engine" | "transition" | "parachute" | "mass";
   name: string;
   x: number;
   y: number;
@@ -25,10 +53,28 @@ export interface RocketComponent {
   dragCoefficient: number;
   color: string;
   material?: string;
-  thickness?: number;
+  thickness?: number; // mm, wall or fin thickness
+  surfaceFinish?: SurfaceFinish;
+  noseShape?: NoseShape;
   finCount?: number;
+  tipChord?: number; // mm, fins use their height as the root chord
+  sweepAngle?: number; // degrees, fin leading-edge sweep
+  cantAngle?: number; // degrees, fin incidence to the body axis
+  recoverySection?: string; // section it comes down in; nose cones default to "Nose", everything else to its stage
+  finProfile?: FinProfile;
+  railGuide?: RailGuide; // launch lug or rail buttons mounted on this part
+  stage?: number; // 0 is the upper stage, higher numbers sit below it and burn first
   motorType?: string;
+  ignitionDelay?: number; // s after its stage lights, for air-starts
+  ignitionFailure?: boolean;
+  radialOffset?: number; // mm off the centerline, for outboard cluster motors
+  radialAngle?: number; // degrees about the body axis
+  recoveryRole?: RecoveryRole;
+  deploymentTrigger?: DeploymentTrigger;
   deploymentAltitude?: number;
+  deploymentDelay?: number; // s after ignition, for the timer trigger
+  canopyDiameter?: number;
+  inflationTime?: number;
 }
 
 export const RocketDesigner = () => {
@@ -36,11 +82,44 @@ export const RocketDesigner = () => {
   const [selectedComponent, setSelectedComponent] = useState<string | null>(null);
   const [selectedMotor, setSelectedMotor] = useState<MotorData | null>(null);
   const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<"design" | "simulate" | "analyze" | "motors" | "stability">("design");
   const [flightData, setFlightData] = useState<FlightDataPoint[]>([]);
+  const [flightEvents, setFlightEvents] = useState<FlightEvent[]>([]);
+  const [separatedTrajectories, setSeparatedTrajectories] = useState<FlightTrajectory[]>([]);
+  const [trajectories, setTrajectories] = useState<FlightTrajectory[]>([]);
+  const [ballisticTrajectories, setBallisticTrajectories] = useState<FlightTrajectory[]>([]);
+  const [simulationOptions, setSimulationOptions] = useState<Partial<SimulationOptions>>({});
+  const [landingLimits, setLandingLimits] = useState<LandingSafetyLimits>(DEFAULT_LANDING_SAFETY_LIMITS);
+  const [stageConfigurations, setStageConfigurations] = useState<StageConfiguration[]>([]);
   const [showComponentProps, setShowComponentProps] = useState(false);
-  const physicsEngine = new PhysicsEngine();
+  const [launchConditions, setLaunchConditions] = useState<LaunchConditions>({
+    altitude: 0,
+    latitude: 37.8433,
+    longitude: -75.4781,
+    temperature: 20,
+    pressure: 101325,
+    humidity: 0.5,
+    windSpeed: 5,
+    windDirection: 0,
+    launchAngle: 90,
+    launchDirection: 0,
+    rodLength: 1
+  });
+  // Kept across renders, which come every progress batch while a flight streams in
+  const stages = useMemo(
+    () => components.length > 0 ? new PhysicsEngine().buildStages(components, selectedMotor, stageConfigurations) : [],
+    [components, selectedMotor, stageConfigurations]
+  );
+  const landingSafety = useMemo(
+    () => analyzeLandingSafety(components, stages, trajectories, ballisticTrajectories, landingLimits),
+    [components, stages, trajectories, ballisticTrajectories, landingLimits]
+  );
+  const hasMotor = stages.some(stage => stage.stack.motors.length > 0);
   const canvasRef = useRef<HTMLDivElement>(null);
+  const simulationRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => simulationRef.current?.abort(), []);
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
@@ -67,6 +146,12 @@ export const RocketDesigner = () => {
         color: component.defaultProps.color,
         material: component.defaultProps.material,
         thickness: component.defaultProps.thickness,
+        noseShape: component.defaultProps.noseShape,
+        tipChord: component.defaultProps.tipChord,
+        sweepAngle: component.defaultProps.sweepAngle,
+        recoveryRole: component.defaultProps.recoveryRole,
+        deploymentTrigger: component.defaultProps.deploymentTrigger,
+        canopyDiameter: component.defaultProps.canopyDiameter,
       };
       
       setComponents(prev => [...prev, newComponent]);
@@ -111,39 +196,44 @@ export const RocketDesigner = () => {
   };
 
   const toggleSimulation = () => {
-    if (!isSimulating && selectedMotor) {
-      // Start simulation with selected motor
-      const rocketPhysics = {
-        totalMass: components.reduce((sum, comp) => sum + comp.mass, 0) + (selectedMotor?.totalMass || 0),
-        dryMass: components.reduce((sum, comp) => sum + comp.mass, 0),
-        propellantMass: selectedMotor?.propellantMass || 0,
-        centerOfGravity: physicsEngine.calculateCenterOfGravity(components),
-        centerOfPressure: physicsEngine.calculateCenterOfPressure(components),
-        stabilityMargin: 0,
-        dragCoefficient: components.reduce((sum, comp) => sum + comp.dragCoefficient, 0),
-        referenceArea: Math.PI * Math.pow(Math.max(...components.map(c => c.width)) / 2000, 2),
-        length: Math.max(...components.map(c => c.y + c.height)) / 1000,
-        diameter: Math.max(...components.map(c => c.width)) / 1000
-      };
-
-      const launchConditions = {
-        altitude: 0,
-        temperature: 20,
-        pressure: 101325,
-        humidity: 0.5,
-        windSpeed: 5,
-        windDirection: 0,
-        launchAngle: 90,
-        launchDirection: 0,
-        rodLength: 1
-      };
-
-      const results = physicsEngine.runFullSimulation(rocketPhysics, selectedMotor, launchConditions);
-      setFlightData(results);
+    if (isSimulating) {
+      simulationRef.current?.abort();
+      setIsSimulating(false);
+    } else if (hasMotor) {
+      const controller = new AbortController();
+      simulationRef.current = controller;
+      setIsSimulating(true);
+      setSimulationError(null);
+      setFlightData([]);
+      setFlightEvents([]);
+      setSeparatedTrajectories([]);
+      setTrajectories([]);
+      setBallisticTrajectories([]);
       setActiveTab("analyze");
+
+      // The upper stage's points stream in as the worker integrates them
+      runFlightInWorker(stages, launchConditions, simulationOptions, points => setFlightData(prev => [...prev, ...points]), controller.signal)
+        .then(([primary, ...boosters]) => {
+          // The upper stage is the primary trajectory; spent boosters are plotted alongside it
+          setFlightData(primary.data);
+          setFlightEvents(primary.events);
+          setSeparatedTrajectories(boosters);
+          setTrajectories([primary, ...boosters]);
+          // Then the same flight again with nothing deploying, for the landing safety check
+          return runFlightInWorker(stripRecovery(stages), launchConditions, simulationOptions, undefined, controller.signal);
+        })
+        .then(setBallisticTrajectories)
+        .catch(error => {
+          if (!isCancellation(error)) setSimulationError(error instanceof Error ? error.message : String(error));
+        })
+        .finally(() => {
+          // A newer run owns the state once this one has been replaced
+          if (simulationRef.current === controller) {
+            simulationRef.current = null;
+            setIsSimulating(false);
+          }
+        });
     }
-    
-    setIsSimulating(!isSimulating);
   };
 
   const tabs = [
@@ -185,9 +275,14 @@ export const RocketDesigner = () => {
                 ))}
               </div>
               
+              {simulationError && (
+                <span className="max-w-xs truncate text-xs text-destructive" title={simulationError}>
+                  Simulation failed: {simulationError}
+                </span>
+              )}
               <Button
                 onClick={toggleSimulation}
-                disabled={!selectedMotor || components.length === 0}
+                disabled={!hasMotor || components.length === 0}
                 variant={isSimulating ? "destructive" : "default"}
                 size="sm"
                 className="flex items-center gap-2"
@@ -234,75 +329,128 @@ export const RocketDesigner = () => {
           {/* Right Panel */}
           <div className="col-span-3 space-y-4">
             {activeTab === "design" && (
-              <Card className="p-4 cosmic-border">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-2">
-                    <Settings className="h-5 w-5 text-primary" />
-                    <h3 className="font-semibold">Component Properties</h3>
-                  </div>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={createCustomComponent}
-                    >
-                      Custom
-                    </Button>
-                    {selectedComponent && (
+              <>
+                <Card className="p-4 cosmic-border">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                      <Settings className="h-5 w-5 text-primary" />
+                      <h3 className="font-semibold">Component Properties</h3>
+                    </div>
+                    <div className="flex gap-2">
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => setShowComponentProps(true)}
+                        onClick={createCustomComponent}
                       >
-                        Edit
+                        Custom
                       </Button>
-                    )}
+                      {selectedComponent && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShowComponentProps(true)}
+                        >
+                          Edit
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                </div>
-                {selectedComponent ? (
-                  <div className="space-y-3">
+                  {selectedComponent ? (
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground">
+                        Component selected: {components.find(c => c.id === selectedComponent)?.name}
+                      </p>
+                      <div className="text-xs space-y-1">
+                        <div>Mass: {components.find(c => c.id === selectedComponent)?.mass.toFixed(4)} kg</div>
+                        <div>Drag Cd: {components.find(c => c.id === selectedComponent)?.dragCoefficient.toFixed(3)}</div>
+                      </div>
+                    </div>
+                  ) : (
                     <p className="text-sm text-muted-foreground">
-                      Component selected: {components.find(c => c.id === selectedComponent)?.name}
+                      Select a component to edit its properties
                     </p>
-                    <div className="text-xs space-y-1">
-                      <div>Mass: {components.find(c => c.id === selectedComponent)?.mass.toFixed(4)} kg</div>
-                      <div>Drag Cd: {components.find(c => c.id === selectedComponent)?.dragCoefficient.toFixed(3)}</div>
-                    </div>
-                  </div>
-                ) : (
-                  <p className="text-sm text-muted-foreground">
-                    Select a component to edit its properties
-                  </p>
-                )}
-              </Card>
+                  )}
+                </Card>
+                <DesignOptimizerPanel
+                  launchConditions={launchConditions}
+                  onApplyDesign={(design) => setComponents(design)}
+                />
+              </>
             )}
             
             {activeTab === "stability" && (
-              <StabilityAnalysis 
-                components={components}
-                selectedMotor={selectedMotor}
-              />
+              <>
+                <StabilityAnalysis 
+                  components={components}
+                  selectedMotor={selectedMotor}
+                  flightData={flightData}
+                  flightEvents={flightEvents}
+                  landingSafety={landingSafety}
+                  landingLimits={landingLimits}
+                />
+                <DynamicStabilityGraph flightData={flightData} />
+              </>
             )}
             
             {(activeTab === "simulate" || activeTab === "analyze") && (
               activeTab === "analyze" ? (
-                <FlightDataGraph 
-                  flightData={flightData}
-                  isSimulating={isSimulating}
-                />
+                <>
+                  <FlightDataGraph 
+                    flightData={flightData}
+                    flightEvents={flightEvents}
+                    separatedTrajectories={separatedTrajectories}
+                    impulseMismatches={trajectories[0]?.impulseMismatches}
+                    isSimulating={isSimulating}
+                  />
+                  <LandingSafetyReport
+                    rows={landingSafety}
+                    limits={landingLimits}
+                    onLimitsChange={(updates) => setLandingLimits(prev => ({ ...prev, ...updates }))}
+                  />
+                  <MachAnalysis
+                    rocketPhysics={stages.length > 0 ? stages[stages.length - 1].stack : null}
+                    launchConditions={launchConditions}
+                  />
+                  <MonteCarloAnalysis stages={stages} launchConditions={launchConditions} options={simulationOptions} />
+                  <ParameterSweepAnalysis
+                    components={components}
+                    selectedMotor={selectedMotor}
+                    stageConfigurations={stageConfigurations}
+                    launchConditions={launchConditions}
+                  />
+                </>
               ) : (
-                <SimulationPanel 
-                  components={components}
-                  selectedMotor={selectedMotor}
-                  isSimulating={isSimulating}
-                  activeTab={activeTab}
-                />
+                <>
+                  <SimulationPanel 
+                    components={components}
+                    selectedMotor={selectedMotor}
+                    isSimulating={isSimulating}
+                    activeTab={activeTab}
+                    launchConditions={launchConditions}
+                    onLaunchConditionsChange={(updates) => setLaunchConditions(prev => ({ ...prev, ...updates }))}
+                  />
+                  <SimulationSettingsEditor
+                    options={simulationOptions}
+                    onOptionsChange={(updates) => setSimulationOptions(prev => ({ ...prev, ...updates }))}
+                  />
+                  {stages.length > 1 && (
+                    <StageEditor
+                      stages={stages}
+                      onStageConfigurationChange={(stage, updates) => setStageConfigurations(prev => {
+                        const next = [...prev];
+                        next[stage] = { ...stages[stage].configuration, ...updates };
+                        return next;
+                      })}
+                    />
+                  )}
+                </>
               )
             )}
             
             <AIAssistant 
               components={components} 
               selectedMotor={selectedMotor} 
+              launchConditions={launchConditions}
               onGenerateDesign={(design) => setComponents(design)}
             />
           </div>
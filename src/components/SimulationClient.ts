@@ -0,0 +1,194 @@
+// Promise-based front end for SimulationWorker. A single flight gets a worker of its own
+// and streams its points back; batch jobs are spread across a pool of workers.
+// Cancelling terminates the workers, since a running simulation can't be interrupted.
+
+import type {
+  FlightDataPoint,
+  FlightTrajectory,
+  LaunchConditions,
+  SimulationOptions,
+  StagePhysics
+} from "./PhysicsEngine";
+import type {
+  SimulationRequest,
+  SimulationResponse,
+  SimulationTask,
+  SimulationTaskKind,
+  SimulationTaskResults
+} from "./SimulationWorker";
+
+export type SimulationTaskOf<K extends SimulationTaskKind> = Extract<SimulationTask, { kind: K }>;
+
+const MAX_POOL_SIZE = 8;
+
+function createWorker(): Worker {
+  return new Worker(new URL("./SimulationWorker.ts", import.meta.url), { type: "module" });
+}
+
+function cancelled(): DOMException {
+  return new DOMException("Simulation cancelled", "AbortError");
+}
+
+export function isCancellation(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// One worker per core, leaving a core for the page itself
+export function workerPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
+
+export function runFlightInWorker(
+  stages: StagePhysics[],
+  launchConditions: LaunchConditions,
+  options: Partial<SimulationOptions> = {},
+  onProgress?: (points: FlightDataPoint[]) => void,
+  signal?: AbortSignal
+): Promise<FlightTrajectory[]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelled());
+      return;
+    }
+
+    const worker = createWorker();
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+    };
+    const abort = () => {
+      finish();
+      reject(cancelled());
+    };
+    signal?.addEventListener("abort", abort);
+
+    worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+      const response = event.data;
+      if (response.type === "progress") {
+        onProgress?.(response.points);
+        return;
+      }
+      finish();
+      if (response.type === "result") {
+        resolve(response.result as FlightTrajectory[]);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message));
+    };
+
+    const request: SimulationRequest = { id: 0, task: { kind: "flight", stages, launchConditions, options } };
+    worker.postMessage(request);
+  });
+}
+
+export interface SimulationPool {
+  run<K extends SimulationTaskKind>(task: SimulationTaskOf<K>): Promise<SimulationTaskResults[K]>;
+  close(): void;
+}
+
+interface PoolJob {
+  task: SimulationTask;
+  resolve: (result: SimulationTaskResults[SimulationTaskKind]) => void;
+  reject: (error: Error) => void;
+}
+
+// Workers that stay up across tasks, for callers whose next task depends on the last
+// result. Workers start as tasks arrive, up to size; tasks beyond that wait their turn.
+// Aborting or closing the pool rejects whatever hasn't finished.
+export function openWorkerPool(signal?: AbortSignal, size: number = workerPoolSize()): SimulationPool {
+  const workers: Worker[] = [];
+  const idle: Worker[] = [];
+  const running = new Map<Worker, PoolJob>();
+  const queue: PoolJob[] = [];
+  let nextId = 0;
+  let closed = signal?.aborted ?? false;
+
+  const shutdown = (error: Error) => {
+    closed = true;
+    signal?.removeEventListener("abort", abort);
+    workers.forEach(worker => worker.terminate());
+    [...running.values(), ...queue].forEach(job => job.reject(error));
+    running.clear();
+    queue.length = 0;
+  };
+  const abort = () => shutdown(cancelled());
+  signal?.addEventListener("abort", abort);
+
+  const start = (worker: Worker, job: PoolJob) => {
+    running.set(worker, job);
+    const request: SimulationRequest = { id: nextId++, task: job.task };
+    worker.postMessage(request);
+  };
+
+  const spawn = (): Worker => {
+    const worker = createWorker();
+    worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+      const response = event.data;
+      const job = running.get(worker);
+      if (!job || response.type === "progress") return;
+
+      running.delete(worker);
+      if (response.type === "result") {
+        job.resolve(response.result);
+      } else {
+        job.reject(new Error(response.message));
+      }
+      const next = queue.shift();
+      if (next) {
+        start(worker, next);
+      } else {
+        idle.push(worker);
+      }
+    };
+    // A crashed worker can't be trusted with the rest of the queue
+    worker.onerror = (event) => shutdown(new Error(event.message));
+    workers.push(worker);
+    return worker;
+  };
+
+  return {
+    run<K extends SimulationTaskKind>(task: SimulationTaskOf<K>): Promise<SimulationTaskResults[K]> {
+      return new Promise((resolve, reject) => {
+        if (closed) {
+          reject(cancelled());
+          return;
+        }
+        const job: PoolJob = {
+          task,
+          resolve: result => resolve(result as SimulationTaskResults[K]),
+          reject
+        };
+        const worker = idle.pop() ?? (workers.length < size ? spawn() : undefined);
+        if (worker) {
+          start(worker, job);
+        } else {
+          queue.push(job);
+        }
+      });
+    },
+    close: () => shutdown(cancelled())
+  };
+}
+
+// Runs every task on the first free worker; results come back in task order, and
+// onResult sees each one as soon as it finishes
+export async function runInWorkerPool<K extends SimulationTaskKind>(
+  tasks: Array<SimulationTaskOf<K>>,
+  onResult?: (result: SimulationTaskResults[K], index: number) => void,
+  signal?: AbortSignal
+): Promise<Array<SimulationTaskResults[K]>> {
+  const pool = openWorkerPool(signal, Math.max(1, Math.min(workerPoolSize(), tasks.length)));
+  try {
+    return await Promise.all(tasks.map((task, index) => pool.run(task).then(result => {
+      onResult?.(result, index);
+      return result;
+    })));
+  } finally {
+    pool.close();
+  }
+}
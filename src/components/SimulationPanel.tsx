@@ -13,15 +13,22 @@ import {
   TrendingUp,
   Target,
   Clock,
-  BarChart3
+  BarChart3,
+  AlertTriangle
 } from "lucide-react";
 import type { RocketComponent } from "./RocketDesigner";
+import type { LaunchConditions } from "./PhysicsEngine";
+import { checkImpulseConsistency } from "./ThrustCurve";
+import { WindProfileEditor } from "./WindProfileEditor";
+import { LaunchSiteEditor } from "./LaunchSiteEditor";
 
 interface SimulationPanelProps {
   components: RocketComponent[];
   selectedMotor: any;
   isSimulating: boolean;
   activeTab: "simulate" | "analyze";
+  launchConditions: LaunchConditions;
+  onLaunchConditionsChange: (updates: Partial<LaunchConditions>) => void;
 }
 
 interface SimulationData {
@@ -38,11 +45,10 @@ export const SimulationPanel = ({
   components, 
   selectedMotor,
   isSimulating, 
-  activeTab 
+  activeTab,
+  launchConditions,
+  onLaunchConditionsChange
 }: SimulationPanelProps) => {
-  const [launchAngle, setLaunchAngle] = useState([90]);
-  const [windSpeed, setWindSpeed] = useState([5]);
-  const [temperature, setTemperature] = useState([20]);
   const [simulationData, setSimulationData] = useState<SimulationData>({
     altitude: 0,
     velocity: 0,
@@ -132,6 +138,8 @@ export const SimulationPanel = ({
         </Card>
       );
     }
+    const impulseCheck = checkImpulseConsistency(selectedMotor);
+
     return (
       <div className="space-y-4">
         <Card className="p-4 cosmic-border">
@@ -147,6 +155,13 @@ export const SimulationPanel = ({
               <div>Avg Thrust: {selectedMotor.averageThrust}N</div>
               <div>Mass: {(selectedMotor.totalMass * 1000).toFixed(0)}g</div>
             </div>
+            {!impulseCheck.consistent && (
+              <div className="flex items-start gap-1 mt-2 text-xs text-rocket-warning">
+                <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                Thrust curve integrates to {impulseCheck.curveImpulse.toFixed(1)} N⋅s
+                ({(impulseCheck.deviation * 100).toFixed(0)}% vs rated impulse)
+              </div>
+            )}
           </div>
         </Card>
         
@@ -160,11 +175,11 @@ export const SimulationPanel = ({
             <div>
               <div className="flex items-center justify-between mb-2">
                 <label className="text-sm font-medium">Launch Angle</label>
-                <Badge variant="outline">{launchAngle[0]}°</Badge>
+                <Badge variant="outline">{launchConditions.launchAngle}°</Badge>
               </div>
               <Slider
-                value={launchAngle}
-                onValueChange={setLaunchAngle}
+                value={[launchConditions.launchAngle]}
+                onValueChange={([launchAngle]) => onLaunchConditionsChange({ launchAngle })}
                 max={90}
                 min={45}
                 step={1}
@@ -172,23 +187,56 @@ export const SimulationPanel = ({
               />
             </div>
             
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium">Rail Length</label>
+                <Badge variant="outline">{launchConditions.rodLength.toFixed(1)} m</Badge>
+              </div>
+              <Slider
+                value={[launchConditions.rodLength]}
+                onValueChange={([rodLength]) => onLaunchConditionsChange({ rodLength })}
+                max={6}
+                min={0.5}
+                step={0.1}
+                className="w-full"
+              />
+            </div>
+
             <div>
               <div className="flex items-center justify-between mb-2">
                 <label className="text-sm font-medium flex items-center gap-1">
                   <Wind className="h-4 w-4" />
                   Wind Speed
                 </label>
-                <Badge variant="outline">{windSpeed[0]} m/s</Badge>
+                <Badge variant="outline">{launchConditions.windSpeed} m/s</Badge>
               </div>
               <Slider
-                value={windSpeed}
-                onValueChange={setWindSpeed}
+                value={[launchConditions.windSpeed]}
+                onValueChange={([windSpeed]) => onLaunchConditionsChange({ windSpeed })}
                 max={20}
                 min={0}
                 step={1}
                 className="w-full"
               />
             </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium flex items-center gap-1">
+                  <Wind className="h-4 w-4" />
+                  Wind Direction
+                </label>
+                <Badge variant="outline">{launchConditions.windDirection}°</Badge>
+              </div>
+              <Slider
+                value={[launchConditions.windDirection]}
+                onValueChange={([windDirection]) => onLaunchConditionsChange({ windDirection })}
+                max={359}
+                min={0}
+                step={1}
+                className="w-full"
+              />
+            </div>
             
             <div>
               <div className="flex items-center justify-between mb-2">
@@ -196,11 +244,11 @@ export const SimulationPanel = ({
                   <Thermometer className="h-4 w-4" />
                   Temperature
                 </label>
-                <Badge variant="outline">{temperature[0]}°C</Badge>
+                <Badge variant="outline">{launchConditions.temperature}°C</Badge>
               </div>
               <Slider
-                value={temperature}
-                onValueChange={setTemperature}
+                value={[launchConditions.temperature]}
+                onValueChange={([temperature]) => onLaunchConditionsChange({ temperature })}
                 max={40}
                 min={-10}
                 step={1}
@@ -210,6 +258,16 @@ export const SimulationPanel = ({
           </div>
         </Card>
 
+        <LaunchSiteEditor
+          launchConditions={launchConditions}
+          onLaunchConditionsChange={onLaunchConditionsChange}
+        />
+
+        <WindProfileEditor
+          launchConditions={launchConditions}
+          onLaunchConditionsChange={onLaunchConditionsChange}
+        />
+
         <Card className="p-4 cosmic-border">
           <div className="flex items-center justify-between mb-4">
             <h3 className="font-semibold">Live Telemetry</h3>
@@ -0,0 +1,124 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Timer } from "lucide-react";
+import {
+  DEFAULT_SIMULATION_OPTIONS,
+  FLIGHT_EVENT_LABELS,
+  type OutputChangeThresholds,
+  type OutputSampling,
+  type SimulationOptions,
+  type StopEvent
+} from "./PhysicsEngine";
+
+interface SimulationSettingsEditorProps {
+  options: Partial<SimulationOptions>;
+  onOptionsChange: (updates: Partial<SimulationOptions>) => void;
+}
+
+const STOP_EVENTS: StopEvent[] = ["landing", "apogee", "deployment", "ejection", "burnout", "railExit"];
+
+const CHANGE_FIELDS: Array<{ key: keyof OutputChangeThresholds; label: string }> = [
+  { key: "altitude", label: "Altitude (m)" },
+  { key: "velocity", label: "Velocity (m/s)" },
+  { key: "acceleration", label: "Accel. (m/s²)" }
+];
+
+export const SimulationSettingsEditor = ({ options, onOptionsChange }: SimulationSettingsEditorProps) => {
+  const settings = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Timer className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Simulation Settings</h3>
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-xs">Stop at</Label>
+            <Select
+              value={settings.stopEvent}
+              onValueChange={(value) => onOptionsChange({ stopEvent: value as StopEvent })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STOP_EVENTS.map(event => (
+                  <SelectItem key={event} value={event}>{FLIGHT_EVENT_LABELS[event]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Max time (s)</Label>
+            <Input
+              type="number"
+              value={settings.maxTime}
+              onChange={(e) => onOptionsChange({ maxTime: Math.max(1, parseFloat(e.target.value) || 0) })}
+              min="1"
+              step="10"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-xs">Output sampling</Label>
+            <Select
+              value={settings.outputSampling}
+              onValueChange={(value) => onOptionsChange({ outputSampling: value as OutputSampling })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rate">Fixed rate</SelectItem>
+                <SelectItem value="change">On change</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.outputSampling === "rate" && (
+            <div>
+              <Label className="text-xs">Rate (points/s)</Label>
+              <Input
+                type="number"
+                value={settings.outputRate}
+                onChange={(e) => onOptionsChange({ outputRate: Math.max(0.1, parseFloat(e.target.value) || 0) })}
+                min="0.1"
+                step="1"
+              />
+            </div>
+          )}
+        </div>
+
+        {settings.outputSampling === "change" && (
+          <div className="grid grid-cols-3 gap-2">
+            {CHANGE_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <Label className="text-xs">{label}</Label>
+                <Input
+                  type="number"
+                  value={settings.outputChange[key]}
+                  onChange={(e) => onOptionsChange({
+                    outputChange: { ...settings.outputChange, [key]: Math.max(0.01, parseFloat(e.target.value) || 0) }
+                  })}
+                  min="0.01"
+                  step="0.5"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          The flight always ends on ground hit or at the max time. Sampling only thins the recorded points;
+          the integrator keeps its full step resolution and every event is still recorded.
+        </p>
+      </div>
+    </Card>
+  );
+};
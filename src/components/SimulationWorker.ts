@@ -0,0 +1,98 @@
+// Runs simulations off the main thread. Each request carries one task and gets back
+// any number of progress messages followed by a single result or error.
+
+import {
+  PhysicsEngine,
+  type FlightDataPoint,
+  type FlightTrajectory,
+  type LaunchConditions,
+  type SimulationOptions,
+  type StagePhysics
+} from "./PhysicsEngine";
+import { runDispersionCase, type DispersionRun, type DispersionSample } from "./MonteCarlo";
+import {
+  evaluateDesign,
+  runSensitivity,
+  runSweepPoint,
+  type SensitivityBar,
+  type SweepDesign,
+  type SweepOutputs,
+  type SweepParameter,
+  type SweepPoint
+} from "./ParameterSweep";
+
+export type SimulationTask =
+  | { kind: "flight"; stages: StagePhysics[]; launchConditions: LaunchConditions; options: Partial<SimulationOptions> }
+  | {
+      kind: "dispersion";
+      stages: StagePhysics[];
+      launchConditions: LaunchConditions;
+      options: Partial<SimulationOptions>;
+      sample: DispersionSample;
+    }
+  | { kind: "evaluate"; design: SweepDesign }
+  | { kind: "sweepPoint"; design: SweepDesign; parameter: SweepParameter; point: { value: number; label: string } }
+  | { kind: "sensitivity"; design: SweepDesign; parameter: SweepParameter };
+
+export interface SimulationTaskResults {
+  flight: FlightTrajectory[];
+  dispersion: DispersionRun;
+  evaluate: SweepOutputs;
+  sweepPoint: SweepPoint;
+  sensitivity: SensitivityBar;
+}
+
+export type SimulationTaskKind = keyof SimulationTaskResults;
+
+export interface SimulationRequest {
+  id: number;
+  task: SimulationTask;
+}
+
+export type SimulationResponse =
+  | { id: number; type: "progress"; points: FlightDataPoint[] }
+  | { id: number; type: "result"; result: SimulationTaskResults[SimulationTaskKind] }
+  | { id: number; type: "error"; message: string };
+
+// Streamed points are batched so the page isn't flooded with messages
+const PROGRESS_INTERVAL = 100; // ms
+
+const engine = new PhysicsEngine();
+
+const respond = (response: SimulationResponse) => self.postMessage(response);
+
+function runTask(id: number, task: SimulationTask): SimulationTaskResults[SimulationTaskKind] {
+  switch (task.kind) {
+    case "flight": {
+      let pending: FlightDataPoint[] = [];
+      let lastPost = Date.now();
+      const trajectories = engine.runStagedSimulation(task.stages, task.launchConditions, task.options, points => {
+        pending.push(...points);
+        if (Date.now() - lastPost >= PROGRESS_INTERVAL) {
+          respond({ id, type: "progress", points: pending });
+          pending = [];
+          lastPost = Date.now();
+        }
+      });
+      if (pending.length > 0) respond({ id, type: "progress", points: pending });
+      return trajectories;
+    }
+    case "dispersion":
+      return runDispersionCase(engine, task.stages, task.launchConditions, task.sample, task.options);
+    case "evaluate":
+      return evaluateDesign(engine, task.design);
+    case "sweepPoint":
+      return runSweepPoint(engine, task.design, task.parameter, task.point);
+    case "sensitivity":
+      return runSensitivity(engine, task.design, task.parameter);
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<SimulationRequest>) => {
+  const { id, task } = event.data;
+  try {
+    respond({ id, type: "result", result: runTask(id, task) });
+  } catch (error) {
+    respond({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+});
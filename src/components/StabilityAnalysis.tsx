@@ -13,35 +13,62 @@ import {
   Crosshair,
   RotateCcw,
   Activity,
-  Download
+  Download,
+  Weight
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import type { RocketComponent } from "./RocketDesigner";
+import { FLIGHT_EVENT_LABELS, PhysicsEngine, type FlightDataPoint, type FlightEvent } from "./PhysicsEngine";
+import type { ComponentMassProperties, MassProperties } from "./MassModel";
+import { DAMPING_RATIO_RANGE, analyzeBoostDamping, type BoostDampingSummary } from "./DynamicStability";
+import {
+  DEFAULT_LANDING_SAFETY_LIMITS,
+  describeLandingSafety,
+  type LandingSafetyLimits,
+  type SectionLanding
+} from "./LandingSafety";
 
 interface StabilityAnalysisProps {
   components: RocketComponent[];
   selectedMotor: any;
+  flightData?: FlightDataPoint[]; // last simulated flight, for the dynamic stability checks
+  flightEvents?: FlightEvent[]; // events of that flight, listed in the exported report
+  landingSafety?: SectionLanding[]; // touchdown energy of each section, listed in the exported report
+  landingLimits?: LandingSafetyLimits;
 }
 
 interface StabilityMetrics {
   staticMargin: number;
-  dynamicStability: number;
+  boostDamping: BoostDampingSummary | null; // null until a flight has been simulated
   centerOfGravity: number;
   centerOfPressure: number;
   finEffectiveness: number;
   recoveryStability: number;
+  massProperties: MassProperties; // whole rocket in this phase, CG in m aft of the nose tip
+  componentMasses: ComponentMassProperties[];
   overallRating: number;
   recommendations: string[];
   warnings: string[];
 }
 
-export const StabilityAnalysis = ({ components, selectedMotor }: StabilityAnalysisProps) => {
+const NO_FLIGHT_DATA: FlightDataPoint[] = [];
+const NO_FLIGHT_EVENTS: FlightEvent[] = [];
+const NO_LANDING_SAFETY: SectionLanding[] = [];
+
+export const StabilityAnalysis = ({
+  components,
+  selectedMotor,
+  flightData = NO_FLIGHT_DATA,
+  flightEvents = NO_FLIGHT_EVENTS,
+  landingSafety = NO_LANDING_SAFETY,
+  landingLimits = DEFAULT_LANDING_SAFETY_LIMITS
+}: StabilityAnalysisProps) => {
   const [metrics, setMetrics] = useState<StabilityMetrics | null>(null);
   const [analysisPhase, setAnalysisPhase] = useState<"powered" | "coast" | "recovery">("powered");
 
   useEffect(() => {
     calculateStabilityMetrics();
-  }, [components, selectedMotor, analysisPhase]);
+  }, [components, selectedMotor, flightData, analysisPhase]);
 
   const calculateStabilityMetrics = () => {
     if (components.length === 0) {
@@ -50,89 +77,24 @@ export const StabilityAnalysis = ({ components, selectedMotor }: StabilityAnalys
     }
 
     // Calculate rocket geometry
+    const physicsEngine = new PhysicsEngine();
     const rocketLength = Math.max(...components.map(c => c.y + c.height)) - Math.min(...components.map(c => c.y));
-    const rocketDiameter = Math.max(...components.map(c => c.width));
+    const rocketDiameter = physicsEngine.calculateReferenceDiameter(components) * 1000;
     
     if (rocketLength <= 0 || rocketDiameter <= 0) {
       setMetrics(null);
       return;
     }
     
-    // Calculate Center of Gravity
-    const totalMass = components.reduce((sum, comp) => {
-      let mass = comp.mass;
-      // Adjust for motor propellant mass during different phases
-      if (comp.type === 'engine' && selectedMotor) {
-        switch (analysisPhase) {
-          case 'powered':
-            mass += selectedMotor.propellantMass / 2; // Half burned
-            break;
-          case 'coast':
-            mass += 0; // No propellant
-            break;
-          case 'recovery':
-            mass += 0; // No propellant
-            break;
-        }
-      }
-      return sum + mass;
-    }, 0);
-
-    const cg = totalMass > 0 
-      ? components.reduce((sum, comp) => {
-          let mass = comp.mass;
-          if (comp.type === 'engine' && selectedMotor) {
-            switch (analysisPhase) {
-              case 'powered': mass += selectedMotor.propellantMass / 2; break;
-              case 'coast': mass += 0; break;
-              case 'recovery': mass += 0; break;
-            }
-          }
-          return sum + (comp.y + comp.height / 2) * mass;
-        }, 0) / totalMass
-      : 0;
-
-    // Calculate Center of Pressure using Barrowman equations (simplified)
-    let cpNumerator = 0;
-    let cpDenominator = 0;
-
-    components.forEach(comp => {
-      let contribution = 0;
-      let normalForceDerivative = 0;
-
-      switch (comp.type) {
-        case 'nosecone':
-          // Nose cone contribution (simplified conical nose)
-          normalForceDerivative = 2 * Math.PI * Math.pow(comp.width / 2, 2);
-          contribution = comp.y + (2/3) * comp.height;
-          break;
-          
-        case 'bodytube':
-          // Body tube has minimal contribution to CP
-          normalForceDerivative = 0.1 * comp.width * comp.height;
-          contribution = comp.y + comp.height / 2;
-          break;
-          
-        case 'fins':
-          // Fin contribution (major factor)
-          const finArea = comp.width * comp.height;
-          const aspectRatio = Math.pow(comp.height, 2) / finArea;
-          normalForceDerivative = (1 + 1 / aspectRatio) * finArea * 4; // Assuming 4 fins
-          contribution = comp.y + comp.height / 3; // CP at 1/3 chord for triangular fin
-          break;
-          
-        case 'transition':
-          // Transition section
-          normalForceDerivative = Math.PI * comp.width * comp.height * 0.5;
-          contribution = comp.y + comp.height / 2;
-          break;
-      }
-
-      cpNumerator += contribution * normalForceDerivative;
-      cpDenominator += normalForceDerivative;
-    });
+    // Mass properties with the propellant left in this phase: half burnt under power, gone afterwards
+    const rocketPhysics = physicsEngine.buildRocketPhysics(components, selectedMotor ?? null);
+    const elapsed = analysisPhase === 'powered' ? physicsEngine.calculateBurnoutTime(rocketPhysics) / 2 : Infinity;
+    const massProperties = physicsEngine.calculateMassProperties(rocketPhysics, elapsed);
+    const noseTip = Math.min(...components.map(c => c.y));
+    const cg = noseTip + massProperties.centerOfGravity * 1000;
 
-    const cp = cpDenominator > 0 ? cpNumerator / cpDenominator : 0;
+    // Barrowman center of pressure from the component geometry
+    const cp = physicsEngine.calculateCenterOfPressure(components);
 
     // Calculate static margin (in calibers)
     const staticMargin = (cp - cg) / (rocketDiameter || 1);
@@ -143,8 +105,8 @@ export const StabilityAnalysis = ({ components, selectedMotor }: StabilityAnalys
       ? Math.min(100, (fins.length * 25) + (fins[0]?.height || 0) / rocketLength * 50)
       : 0;
 
-    // Dynamic stability calculation (simplified)
-    const dynamicStability = Math.min(100, staticMargin * 20 + finEffectiveness * 0.3);
+    // Pitch damping along the simulated boost
+    const boostDamping = analyzeBoostDamping(flightData);
 
     // Recovery stability
     const hasRecovery = components.some(c => c.type === 'parachute');
@@ -167,6 +129,19 @@ export const StabilityAnalysis = ({ components, selectedMotor }: StabilityAnalys
       recommendations.push("Reduce fin size or move weight aft");
     }
 
+    boostDamping?.excursions.forEach(excursion => {
+      const interval = `${excursion.start.toFixed(1)}-${excursion.end.toFixed(1)} s`;
+      warnings.push(excursion.kind === "underdamped"
+        ? `Damping ratio drops to ${excursion.extreme.toFixed(3)} during boost (${interval}) - oscillations will persist`
+        : `Damping ratio reaches ${excursion.extreme.toFixed(3)} during boost (${interval}) - rocket is slow to recover`);
+    });
+    if (boostDamping?.excursions.some(e => e.kind === "underdamped")) {
+      recommendations.push("Increase fin area or move the fins aft to raise aerodynamic damping");
+    }
+    if (boostDamping?.excursions.some(e => e.kind === "overdamped")) {
+      recommendations.push("Reduce fin area or the static margin to bring damping back into range");
+    }
+
     if (fins.length === 0) {
       warnings.push("No fins detected - rocket will be unstable");
       recommendations.push("Add fin set for stability");
@@ -191,11 +166,13 @@ export const StabilityAnalysis = ({ components, selectedMotor }: StabilityAnalys
 
     setMetrics({
       staticMargin,
-      dynamicStability,
+      boostDamping,
       centerOfGravity: cg,
       centerOfPressure: cp,
       finEffectiveness,
       recoveryStability,
+      massProperties,
+      componentMasses: physicsEngine.calculateComponentMassProperties(components),
       overallRating,
       recommendations,
       warnings
@@ -304,6 +281,30 @@ export const StabilityAnalysis = ({ components, selectedMotor }: StabilityAnalys
           <Progress value={metrics.finEffectiveness} className="h-2" />
         </div>
 
+        {/* Boost Damping */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium flex items-center gap-1">
+              <Activity className="h-4 w-4" />
+              Boost Damping Ratio
+            </span>
+            <Badge
+              variant="outline"
+              className={!metrics.boostDamping ? "" :
+                metrics.boostDamping.excursions.length === 0 ? "text-rocket-success" : "text-rocket-warning"}
+            >
+              {metrics.boostDamping
+                ? `${metrics.boostDamping.minimum.toFixed(3)}–${metrics.boostDamping.maximum.toFixed(3)}`
+                : "—"}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {metrics.boostDamping
+              ? `Recommended range: ${DAMPING_RATIO_RANGE.min} - ${DAMPING_RATIO_RANGE.max}`
+              : "Run a simulation to evaluate damping along the flight"}
+          </p>
+        </div>
+
         {/* Center of Gravity vs Center of Pressure */}
         <div className="bg-muted/50 p-3 rounded-lg">
           <h4 className="font-medium mb-2">CG/CP Analysis</h4>
@@ -323,6 +324,53 @@ export const StabilityAnalysis = ({ components, selectedMotor }: StabilityAnalys
           </div>
         </div>
 
+        {/* Mass Properties */}
+        <div className="bg-muted/50 p-3 rounded-lg">
+          <h4 className="font-medium mb-2 flex items-center gap-1">
+            <Weight className="h-4 w-4" />
+            Mass Properties
+          </h4>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Total Mass:</span>
+              <span className="font-medium">{(metrics.massProperties.mass * 1000).toFixed(1)} g</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Pitch/Yaw Inertia:</span>
+              <span className="font-medium">{metrics.massProperties.longitudinalInertia.toFixed(5)} kg·m²</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Roll Inertia:</span>
+              <span className="font-medium">{metrics.massProperties.rotationalInertia.toFixed(6)} kg·m²</span>
+            </div>
+          </div>
+          <table className="w-full text-xs mt-3">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-normal">Component</th>
+                <th className="text-right font-normal">Mass</th>
+                <th className="text-right font-normal">CG</th>
+                <th className="text-right font-normal">I pitch</th>
+                <th className="text-right font-normal">I roll</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.componentMasses.map(part => (
+                <tr key={part.id}>
+                  <td className="truncate max-w-[6rem]">{part.name}</td>
+                  <td className="text-right">{(part.mass * 1000).toFixed(0)} g</td>
+                  <td className="text-right">{(part.centerOfGravity * 1000).toFixed(0)} mm</td>
+                  <td className="text-right">{part.longitudinalInertia.toExponential(2)}</td>
+                  <td className="text-right">{part.rotationalInertia.toExponential(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground mt-2">
+            Totals include the motors and the propellant left in the {analysisPhase} phase. Component CGs in mm from the nose tip; inertias in kg·m² about each part's own CG.
+          </p>
+        </div>
+
         <Separator />
 
         {/* Warnings */}
@@ -397,8 +445,31 @@ export const StabilityAnalysis = ({ components, selectedMotor }: StabilityAnalys
                 `Center of Gravity: ${metrics.centerOfGravity.toFixed(1)} mm`,
                 `Center of Pressure: ${metrics.centerOfPressure.toFixed(1)} mm`,
                 `Fin Effectiveness: ${metrics.finEffectiveness.toFixed(0)}%`,
+                metrics.boostDamping
+                  ? `Boost Damping Ratio: ${metrics.boostDamping.minimum.toFixed(3)} - ${metrics.boostDamping.maximum.toFixed(3)}`
+                  : 'Boost Damping Ratio: not simulated',
+                '',
+                'Mass Properties:',
+                `Total Mass: ${(metrics.massProperties.mass * 1000).toFixed(1)} g`,
+                `Pitch/Yaw Inertia: ${metrics.massProperties.longitudinalInertia.toFixed(5)} kg·m²`,
+                `Roll Inertia: ${metrics.massProperties.rotationalInertia.toFixed(6)} kg·m²`,
+                ...metrics.componentMasses.map(part =>
+                  `- ${part.name}: ${(part.mass * 1000).toFixed(1)} g, CG ${(part.centerOfGravity * 1000).toFixed(1)} mm, ` +
+                  `I pitch ${part.longitudinalInertia.toExponential(3)} kg·m², I roll ${part.rotationalInertia.toExponential(3)} kg·m²`
+                ),
                 `Overall Rating: ${metrics.overallRating.toFixed(0)}%`,
                 '',
+                'Flight Events:',
+                ...(flightEvents.length > 0
+                  ? flightEvents.map(event =>
+                      `- T+${event.time.toFixed(3)}s ${FLIGHT_EVENT_LABELS[event.type]}${event.source ? ` (${event.source})` : ''}: ` +
+                      `${event.state.altitude.toFixed(1)} m, ${event.state.velocity.toFixed(1)} m/s`
+                    )
+                  : ['- not simulated']),
+                '',
+                'Landing Safety:',
+                ...describeLandingSafety(landingSafety, landingLimits),
+                '',
                 'Warnings:',
                 ...metrics.warnings.map(w => `- ${w}`),
                 '',
@@ -0,0 +1,80 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers } from "lucide-react";
+import type { SeparationTrigger, StageConfiguration, StagePhysics } from "./PhysicsEngine";
+
+interface StageEditorProps {
+  stages: StagePhysics[];
+  onStageConfigurationChange: (stage: number, updates: Partial<StageConfiguration>) => void;
+}
+
+export const StageEditor = ({ stages, onStageConfigurationChange }: StageEditorProps) => {
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Layers className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Staging</h3>
+      </div>
+
+      <div className="space-y-4">
+        {stages.map(({ configuration, stack }, stage) => (
+          <div key={stage} className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Stage {stage}: {configuration.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {stack.motors.length > 0 ? stack.motors.map(m => m.motorData.designation).join(" + ") : "No motor"} · {stack.totalMass.toFixed(3)} kg stack
+              </span>
+            </div>
+
+            {stage > 0 && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs">Separation</Label>
+                  <Select
+                    value={configuration.separationTrigger}
+                    onValueChange={(value) => onStageConfigurationChange(stage, { separationTrigger: value as SeparationTrigger })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="burnout">At Burnout</SelectItem>
+                      <SelectItem value="timer">Timer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">
+                    {configuration.separationTrigger === "timer" ? "After Ignition (s)" : "After Burnout (s)"}
+                  </Label>
+                  <Input
+                    type="number"
+                    value={configuration.separationDelay}
+                    onChange={(e) => onStageConfigurationChange(stage, { separationDelay: parseFloat(e.target.value) || 0 })}
+                    min="0"
+                    step="0.1"
+                  />
+                </div>
+              </div>
+            )}
+
+            {stage < stages.length - 1 && (
+              <div>
+                <Label className="text-xs">Ignition Delay After Separation (s)</Label>
+                <Input
+                  type="number"
+                  value={configuration.ignitionDelay}
+                  onChange={(e) => onStageConfigurationChange(stage, { ignitionDelay: parseFloat(e.target.value) || 0 })}
+                  min="0"
+                  step="0.1"
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+// Thrust curve interpolation and impulse bookkeeping for MotorData.thrustCurve samples
+
+import type { MotorData } from "./PhysicsEngine";
+
+export type ThrustInterpolation = "linear" | "cubic";
+
+type CurvePoint = { time: number; thrust: number };
+
+export interface ImpulseCheck {
+  curveImpulse: number; // N·s, integral of the interpolated curve
+  ratedImpulse: number; // N·s, MotorData.totalImpulse
+  deviation: number; // fractional difference from the rated impulse
+  consistent: boolean;
+}
+
+function findInterval(curve: CurvePoint[], time: number): number {
+  let low = 0;
+  let high = curve.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (curve[mid].time <= time) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+function secant(curve: CurvePoint[], i: number): number {
+  const dt = curve[i + 1].time - curve[i].time;
+  return dt > 0 ? (curve[i + 1].thrust - curve[i].thrust) / dt : 0;
+}
+
+// Fritsch–Carlson slope at a sample; keeps the cubic from overshooting the data
+function monotoneSlope(curve: CurvePoint[], i: number): number {
+  if (i === 0) return secant(curve, 0);
+  if (i === curve.length - 1) return secant(curve, i - 1);
+
+  const before = secant(curve, i - 1);
+  const after = secant(curve, i);
+  if (before * after <= 0) return 0;
+
+  const h0 = curve[i].time - curve[i - 1].time;
+  const h1 = curve[i + 1].time - curve[i].time;
+  const w0 = 2 * h1 + h0;
+  const w1 = h1 + 2 * h0;
+  return (w0 + w1) / (w0 / before + w1 / after);
+}
+
+export function interpolateThrust(curve: CurvePoint[], time: number, method: ThrustInterpolation = "linear"): number {
+  if (curve.length === 0 || time < curve[0].time || time > curve[curve.length - 1].time) return 0;
+  if (curve.length === 1) return curve[0].thrust;
+
+  const i = Math.min(findInterval(curve, time), curve.length - 2);
+  const p0 = curve[i];
+  const p1 = curve[i + 1];
+  const h = p1.time - p0.time;
+  if (h <= 0) return p1.thrust;
+
+  const s = (time - p0.time) / h;
+  if (method === "linear") {
+    return p0.thrust + (p1.thrust - p0.thrust) * s;
+  }
+
+  // Cubic Hermite segment with monotone slopes
+  const m0 = monotoneSlope(curve, i);
+  const m1 = monotoneSlope(curve, i + 1);
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return (2 * s3 - 3 * s2 + 1) * p0.thrust +
+    (s3 - 2 * s2 + s) * h * m0 +
+    (-2 * s3 + 3 * s2) * p1.thrust +
+    (s3 - s2) * h * m1;
+}
+
+export function integrateThrust(curve: CurvePoint[], upTo: number, method: ThrustInterpolation = "linear"): number {
+  let impulse = 0;
+
+  for (let i = 0; i < curve.length - 1; i++) {
+    const p0 = curve[i];
+    const p1 = curve[i + 1];
+    if (p0.time >= upTo) break;
+
+    const end = Math.min(p1.time, upTo);
+    const h = p1.time - p0.time;
+    if (end === p1.time) {
+      // Whole segment: trapezoid, plus the exact Hermite correction for cubic
+      impulse += h * (p0.thrust + p1.thrust) / 2;
+      if (method === "cubic") {
+        impulse += h * h * (monotoneSlope(curve, i) - monotoneSlope(curve, i + 1)) / 12;
+      }
+    } else {
+      // Partial segment: Simpson's rule is exact for both interpolants
+      const mid = (p0.time + end) / 2;
+      impulse += (end - p0.time) / 6 * (
+        interpolateThrust(curve, p0.time, method) +
+        4 * interpolateThrust(curve, mid, method) +
+        interpolateThrust(curve, end, method)
+      );
+    }
+  }
+
+  return impulse;
+}
+
+export function checkImpulseConsistency(
+  motorData: MotorData,
+  method: ThrustInterpolation = "linear",
+  tolerance: number = 0.1
+): ImpulseCheck {
+  const curveImpulse = integrateThrust(motorData.thrustCurve, Infinity, method);
+  const deviation = motorData.totalImpulse > 0
+    ? (curveImpulse - motorData.totalImpulse) / motorData.totalImpulse
+    : 0;
+
+  return {
+    curveImpulse,
+    ratedImpulse: motorData.totalImpulse,
+    deviation,
+    consistent: Math.abs(deviation) <= tolerance
+  };
+}
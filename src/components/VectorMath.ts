@@ -0,0 +1,99 @@
+// Vector and quaternion helpers for the rigid-body flight model.
+// World frame: x = north, y = up, z = east (right-handed).
+// Body frame: x = rocket axis (towards the nose), y/z = lateral axes.
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const ZERO_VECTOR: Vector3 = { x: 0, y: 0, z: 0 };
+export const IDENTITY_QUATERNION: Quaternion = { w: 1, x: 0, y: 0, z: 0 };
+
+export function vec(x: number, y: number, z: number): Vector3 {
+  return { x, y, z };
+}
+
+export function add(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+export function subtract(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function scale(a: Vector3, s: number): Vector3 {
+  return { x: a.x * s, y: a.y * s, z: a.z * s };
+}
+
+export function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+export function cross(a: Vector3, b: Vector3): Vector3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+export function length(a: Vector3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+export function normalize(a: Vector3): Vector3 {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : { ...ZERO_VECTOR };
+}
+
+export function quatMultiply(a: Quaternion, b: Quaternion): Quaternion {
+  return {
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w
+  };
+}
+
+export function quatConjugate(q: Quaternion): Quaternion {
+  return { w: q.w, x: -q.x, y: -q.y, z: -q.z };
+}
+
+export function quatNormalize(q: Quaternion): Quaternion {
+  const len = Math.sqrt(q.w * q.w + q.x * q.x + q.y * q.y + q.z * q.z);
+  return len > 0 ? { w: q.w / len, x: q.x / len, y: q.y / len, z: q.z / len } : { ...IDENTITY_QUATERNION };
+}
+
+// Rotates a vector by a unit quaternion (body -> world for an attitude quaternion)
+export function quatRotate(q: Quaternion, v: Vector3): Vector3 {
+  const p = quatMultiply(quatMultiply(q, { w: 0, x: v.x, y: v.y, z: v.z }), quatConjugate(q));
+  return { x: p.x, y: p.y, z: p.z };
+}
+
+// Time derivative of an attitude quaternion for a body-frame angular velocity
+export function quatDerivative(q: Quaternion, angularVelocity: Vector3): Quaternion {
+  const p = quatMultiply(q, { w: 0, ...angularVelocity });
+  return { w: 0.5 * p.w, x: 0.5 * p.x, y: 0.5 * p.y, z: 0.5 * p.z };
+}
+
+// Shortest rotation taking unit vector `from` onto unit vector `to`
+export function quatFromTo(from: Vector3, to: Vector3): Quaternion {
+  const d = dot(from, to);
+  if (d < -0.999999) {
+    const axis = length(cross({ x: 1, y: 0, z: 0 }, from)) > 1e-6
+      ? normalize(cross({ x: 1, y: 0, z: 0 }, from))
+      : normalize(cross({ x: 0, y: 1, z: 0 }, from));
+    return { w: 0, ...axis };
+  }
+  const c = cross(from, to);
+  return quatNormalize({ w: 1 + d, x: c.x, y: c.y, z: c.z });
+}
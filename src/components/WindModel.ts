@@ -0,0 +1,165 @@
+// Altitude-dependent wind profiles with optional Dryden-style turbulence.
+// Wind vectors use the world frame of the flight model: x = north, y = up, z = east.
+
+import type { LaunchConditions } from "./PhysicsEngine";
+import type { Vector3 } from "./VectorMath";
+import { createRandom, type RandomSource } from "./Random";
+
+export type WindProfileType = "constant" | "powerLaw" | "logarithmic" | "table";
+export type TurbulenceLevel = "none" | "light" | "moderate" | "severe";
+
+export interface WindTableEntry {
+  altitude: number; // m above the launch site
+  speed: number; // m/s
+  direction: number; // degrees clockwise from north the wind blows from
+}
+
+export interface WindProfile {
+  type: WindProfileType;
+  referenceHeight: number; // m, height at which LaunchConditions.windSpeed is measured
+  powerLawExponent: number; // Hellmann exponent, ~0.14 over open terrain
+  roughnessLength: number; // m, surface roughness for the logarithmic profile
+  table: WindTableEntry[]; // sounding, used by the "table" profile
+  turbulence: TurbulenceLevel;
+  seed: number;
+}
+
+export const DEFAULT_WIND_PROFILE: WindProfile = {
+  type: "constant",
+  referenceHeight: 10,
+  powerLawExponent: 0.143,
+  roughnessLength: 0.03,
+  table: [],
+  turbulence: "none",
+  seed: 1
+};
+
+// Wind speed at 20 ft used by MIL-F-8785C to set low-altitude turbulence intensity, m/s
+const TURBULENCE_WIND_20FT: Record<TurbulenceLevel, number> = {
+  none: 0,
+  light: 7.7,
+  moderate: 15.4,
+  severe: 23.1
+};
+
+const FEET = 0.3048;
+const GUST_TIME_STEP = 0.05; // s, spacing of the generated gust samples
+const TURBULENCE_REFERENCE_ALTITUDE = 100; // m, sets the gust length scales
+
+function windFromDirection(speed: number, direction: number): Vector3 {
+  // Meteorological direction: the wind blows from `direction` towards the opposite heading
+  const radians = direction * Math.PI / 180;
+  return { x: -speed * Math.cos(radians), y: 0, z: -speed * Math.sin(radians) };
+}
+
+// Dryden low-altitude length scales (MIL-F-8785C), altitude in metres
+function horizontalLengthScale(altitude: number): number {
+  const h = Math.max(altitude / FEET, 10);
+  return h / Math.pow(0.177 + 0.000823 * h, 1.2) * FEET;
+}
+
+function verticalLengthScale(altitude: number): number {
+  return Math.max(altitude, 10 * FEET);
+}
+
+export class WindModel {
+  private profile: WindProfile;
+  private launchConditions: LaunchConditions;
+  private random: RandomSource;
+  private gusts: Vector3[] = [{ x: 0, y: 0, z: 0 }];
+  private correlation: Vector3;
+
+  constructor(launchConditions: LaunchConditions) {
+    this.launchConditions = launchConditions;
+    this.profile = { ...DEFAULT_WIND_PROFILE, ...launchConditions.windProfile };
+    this.random = createRandom(this.profile.seed);
+
+    // Frozen turbulence carried past the rocket by the mean wind
+    const advection = Math.max(1, launchConditions.windSpeed);
+    this.correlation = {
+      x: Math.exp(-GUST_TIME_STEP * advection / horizontalLengthScale(TURBULENCE_REFERENCE_ALTITUDE)),
+      y: Math.exp(-GUST_TIME_STEP * advection / verticalLengthScale(TURBULENCE_REFERENCE_ALTITUDE)),
+      z: Math.exp(-GUST_TIME_STEP * advection / horizontalLengthScale(TURBULENCE_REFERENCE_ALTITUDE))
+    };
+  }
+
+  getMeanWind(altitude: number): Vector3 {
+    const { windSpeed, windDirection } = this.launchConditions;
+    const { type, referenceHeight, powerLawExponent, roughnessLength, table } = this.profile;
+    const height = Math.max(0, altitude);
+
+    switch (type) {
+      case "powerLaw":
+        return windFromDirection(windSpeed * Math.pow(height / referenceHeight, powerLawExponent), windDirection);
+      case "logarithmic": {
+        const factor = height > roughnessLength
+          ? Math.log(height / roughnessLength) / Math.log(referenceHeight / roughnessLength)
+          : 0;
+        return windFromDirection(windSpeed * factor, windDirection);
+      }
+      case "table":
+        return table.length > 0 ? this.interpolateTable(height) : windFromDirection(windSpeed, windDirection);
+      default:
+        return windFromDirection(windSpeed, windDirection);
+    }
+  }
+
+  getWind(altitude: number, time: number): Vector3 {
+    const mean = this.getMeanWind(altitude);
+    if (this.profile.turbulence === "none") return mean;
+
+    const gust = this.getGust(altitude, time);
+    return { x: mean.x + gust.x, y: mean.y + gust.y, z: mean.z + gust.z };
+  }
+
+  private interpolateTable(altitude: number): Vector3 {
+    const rows = [...this.profile.table].sort((a, b) => a.altitude - b.altitude);
+    if (altitude <= rows[0].altitude) return windFromDirection(rows[0].speed, rows[0].direction);
+
+    const last = rows[rows.length - 1];
+    if (altitude >= last.altitude) return windFromDirection(last.speed, last.direction);
+
+    // Interpolate the vectors so direction changes take the short way round
+    const upper = rows.findIndex(row => row.altitude > altitude);
+    const below = rows[upper - 1];
+    const above = rows[upper];
+    const fraction = (altitude - below.altitude) / (above.altitude - below.altitude);
+    const a = windFromDirection(below.speed, below.direction);
+    const b = windFromDirection(above.speed, above.direction);
+    return {
+      x: a.x + (b.x - a.x) * fraction,
+      y: 0,
+      z: a.z + (b.z - a.z) * fraction
+    };
+  }
+
+  private getGust(altitude: number, time: number): Vector3 {
+    // Unit-variance Gauss–Markov samples on a fixed grid, generated in order so any
+    // query sequence sees the same realisation; scaled by the Dryden intensities
+    const index = Math.max(0, time) / GUST_TIME_STEP;
+    const lower = Math.floor(index);
+    while (this.gusts.length <= lower + 1) {
+      const previous = this.gusts[this.gusts.length - 1];
+      const { x, y, z } = this.correlation;
+      this.gusts.push({
+        x: x * previous.x + Math.sqrt(1 - x * x) * this.random.normal(),
+        y: y * previous.y + Math.sqrt(1 - y * y) * this.random.normal(),
+        z: z * previous.z + Math.sqrt(1 - z * z) * this.random.normal()
+      });
+    }
+
+    const fraction = index - lower;
+    const g0 = this.gusts[lower];
+    const g1 = this.gusts[lower + 1];
+
+    const h = Math.max(altitude / FEET, 10);
+    const verticalIntensity = 0.1 * TURBULENCE_WIND_20FT[this.profile.turbulence];
+    const horizontalIntensity = verticalIntensity / Math.pow(0.177 + 0.000823 * h, 0.4);
+
+    return {
+      x: horizontalIntensity * (g0.x + (g1.x - g0.x) * fraction),
+      y: verticalIntensity * (g0.y + (g1.y - g0.y) * fraction),
+      z: horizontalIntensity * (g0.z + (g1.z - g0.z) * fraction)
+    };
+  }
+}
@@ -0,0 +1,196 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Wind, Plus, Trash2 } from "lucide-react";
+import type { LaunchConditions } from "./PhysicsEngine";
+import {
+  DEFAULT_WIND_PROFILE,
+  type TurbulenceLevel,
+  type WindProfile,
+  type WindProfileType,
+  type WindTableEntry
+} from "./WindModel";
+
+interface WindProfileEditorProps {
+  launchConditions: LaunchConditions;
+  onLaunchConditionsChange: (updates: Partial<LaunchConditions>) => void;
+}
+
+const PROFILE_LABELS: Record<WindProfileType, string> = {
+  constant: "Constant",
+  powerLaw: "Power Law",
+  logarithmic: "Logarithmic",
+  table: "Sounding Table"
+};
+
+const TURBULENCE_LABELS: Record<TurbulenceLevel, string> = {
+  none: "None",
+  light: "Light",
+  moderate: "Moderate",
+  severe: "Severe"
+};
+
+export const WindProfileEditor = ({ launchConditions, onLaunchConditionsChange }: WindProfileEditorProps) => {
+  const profile: WindProfile = { ...DEFAULT_WIND_PROFILE, ...launchConditions.windProfile };
+
+  const updateProfile = (updates: Partial<WindProfile>) => {
+    onLaunchConditionsChange({ windProfile: { ...profile, ...updates } });
+  };
+
+  const updateRow = (index: number, updates: Partial<WindTableEntry>) => {
+    updateProfile({
+      table: profile.table.map((row, i) => i === index ? { ...row, ...updates } : row)
+    });
+  };
+
+  const addRow = () => {
+    const last = profile.table[profile.table.length - 1];
+    updateProfile({
+      table: [...profile.table, {
+        altitude: last ? last.altitude + 100 : 0,
+        speed: last ? last.speed : launchConditions.windSpeed,
+        direction: last ? last.direction : launchConditions.windDirection
+      }]
+    });
+  };
+
+  return (
+    <Card className="p-4 cosmic-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Wind className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Wind Profile</h3>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <Label>Profile</Label>
+          <Select value={profile.type} onValueChange={(type) => updateProfile({ type: type as WindProfileType })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PROFILE_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {(profile.type === "powerLaw" || profile.type === "logarithmic") && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs">Reference Height (m)</Label>
+              <Input
+                type="number"
+                value={profile.referenceHeight}
+                onChange={(e) => updateProfile({ referenceHeight: parseFloat(e.target.value) || DEFAULT_WIND_PROFILE.referenceHeight })}
+                min="1"
+                step="1"
+              />
+            </div>
+            {profile.type === "powerLaw" ? (
+              <div>
+                <Label className="text-xs">Exponent</Label>
+                <Input
+                  type="number"
+                  value={profile.powerLawExponent}
+                  onChange={(e) => updateProfile({ powerLawExponent: parseFloat(e.target.value) || 0 })}
+                  min="0"
+                  max="1"
+                  step="0.01"
+                />
+              </div>
+            ) : (
+              <div>
+                <Label className="text-xs">Roughness (m)</Label>
+                <Input
+                  type="number"
+                  value={profile.roughnessLength}
+                  onChange={(e) => updateProfile({ roughnessLength: parseFloat(e.target.value) || DEFAULT_WIND_PROFILE.roughnessLength })}
+                  min="0.0001"
+                  step="0.01"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {profile.type === "table" && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1 text-xs text-muted-foreground">
+              <span>Alt (m)</span>
+              <span>Speed (m/s)</span>
+              <span>From (°)</span>
+              <span />
+            </div>
+            {profile.table.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1">
+                <Input
+                  type="number"
+                  value={row.altitude}
+                  onChange={(e) => updateRow(index, { altitude: parseFloat(e.target.value) || 0 })}
+                  className="h-8 text-xs"
+                />
+                <Input
+                  type="number"
+                  value={row.speed}
+                  onChange={(e) => updateRow(index, { speed: parseFloat(e.target.value) || 0 })}
+                  className="h-8 text-xs"
+                />
+                <Input
+                  type="number"
+                  value={row.direction}
+                  onChange={(e) => updateRow(index, { direction: parseFloat(e.target.value) || 0 })}
+                  className="h-8 text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateProfile({ table: profile.table.filter((_, i) => i !== index) })}
+                  className="h-8 w-8 p-0"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addRow} className="w-full flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Add Level
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-xs">Turbulence</Label>
+            <Select
+              value={profile.turbulence}
+              onValueChange={(turbulence) => updateProfile({ turbulence: turbulence as TurbulenceLevel })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TURBULENCE_LABELS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Gust Seed</Label>
+            <Input
+              type="number"
+              value={profile.seed}
+              onChange={(e) => updateProfile({ seed: parseInt(e.target.value) || 0 })}
+              disabled={profile.turbulence === "none"}
+              step="1"
+            />
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};